@@ -10,69 +10,252 @@ import {
   TechSubCategory,
   OtherSubCategory,
 } from "./config/constants";
-import { TweetData, SummarizedContent, GroupedContents } from "./types";
+import {
+  TweetData,
+  SummarizedContent,
+  GroupedContents,
+  TweetSourceOptions,
+  DateRange,
+  ScrapedContent,
+  FullClassificationResult,
+} from "./types";
 import prisma from "./db";
-import { fetchRecentTweets } from "./services/sheets";
+import { getTweetSource } from "./services/tweet-sources";
 import { scrapeUrl } from "./services/scraper";
+import { closeBrowserPool } from "./services/browser-pool";
+import { getPolitenessMetrics } from "./services/politeness";
+import { expandTweet } from "./services/thread-expander";
 import {
   classifyTweet,
   classifyTweetWithSubCategory,
+  classifyTweetsWithSubCategory,
+  getClassificationMetrics,
 } from "./services/classifier";
 import { summarizeTweet } from "./services/summarizer";
 import { createPodcastScript } from "./services/converter";
 import { textToSpeech } from "./services/tts";
-import { saveTweet, savePodcastEpisode, markTweetAsProcessed } from "./db";
+import {
+  savePodcastEpisode,
+  markTweetAsProcessed,
+  getLatestPodcastEpisode,
+  getUnprocessedTweets,
+  getTweetsInRange,
+  updateTweetCategory,
+  updateTweetExpandedContent,
+  toTweetData,
+} from "./db";
+import { saveImportedTweets } from "./services/tweet-importer";
 import { logInfo, logError } from "./utils/logger";
-import { formatDateTimeJP } from "./utils/date";
+import { formatDateTimeJP, parseDate } from "./utils/date";
+
+/**
+ * コマンドラインで指定された日時をパース
+ * @param value 日時文字列
+ * @param optionName エラーメッセージ用のオプション名
+ */
+function parseDateOption(value: string, optionName: string): Date {
+  try {
+    return parseDate(value);
+  } catch {
+    throw new Error(`--${optionName} の日時を解析できません: ${value}`);
+  }
+}
+
+/**
+ * 取り込み対象の日付範囲を決定
+ * --since/--until の指定を優先し、開始日時が未指定の場合は前回エピソードの終端日時から続ける
+ * エピソードがまだない場合は過去1週間を対象にする
+ * @param options --since / --until の指定
+ * @returns 取り込み対象の日付範囲
+ */
+async function resolveDateRange(options?: {
+  since?: string;
+  until?: string;
+}): Promise<DateRange> {
+  const endDate = options?.until
+    ? parseDateOption(options.until, "until")
+    : new Date();
+
+  if (options?.since) {
+    return { startDate: parseDateOption(options.since, "since"), endDate };
+  }
+
+  const latestEpisode = await getLatestPodcastEpisode();
+  if (latestEpisode) {
+    const startDate = latestEpisode.cutoffAt || latestEpisode.generatedAt;
+    logInfo(
+      `前回のエピソード（${latestEpisode.title}）の終端日時から取り込みます`
+    );
+    return { startDate, endDate };
+  }
+
+  return {
+    startDate: new Date(endDate.getTime() - config.date.oneWeekMs),
+    endDate,
+  };
+}
 
 /**
  * Twitterお気に入りPodcast生成の全処理
- * index.tsのmain関数と同じロジックだが、インポート問題を解決するため別ファイルに分離
+ * index.tsのmain関数からも呼び出す（インポート問題を解決するため別ファイルに分離）
  */
-export async function processAll(options?: { maxTweets?: number }) {
+export async function processAll(options?: {
+  maxTweets?: number;
+  source?: string;
+  sourceOptions?: TweetSourceOptions;
+  since?: string;
+  until?: string;
+  reprocess?: boolean;
+  retrySince?: string;
+  refreshScrape?: boolean;
+  expandThreads?: boolean;
+  batchClassify?: boolean;
+}) {
   try {
     logInfo("Twitterお気に入りPodcast生成を開始します");
 
-    // 1. スプレッドシートからツイートデータを取得（引数は使わず、設定値を使用）
-    const tweets = await fetchRecentTweets();
+    // 1. 取得元からツイートデータを取得
+    const source = getTweetSource(options?.source);
+    const dateRange = await resolveDateRange(options);
+    logInfo(`取得元 ${source.name} からツイートを取得します`);
+    const fetchedTweets = await source.fetchTweets(
+      dateRange,
+      options?.sourceOptions
+    );
+
+    // 取得したツイートをデータベースに保存してから、期間内の未処理のものだけを対象にする
+    // （tweetLinkで重複排除されるため、既存のツイートは上書きされない）
+    // 前回失敗したツイートを再試行する場合は --retry-since で未処理のツイートの開始日時を広げる
+    await saveImportedTweets(fetchedTweets);
+    const retrySince = options?.retrySince
+      ? parseDateOption(options.retrySince, "retry-since")
+      : undefined;
+    const unprocessedStartDate =
+      retrySince && retrySince < dateRange.startDate
+        ? retrySince
+        : dateRange.startDate;
+    const rows = options?.reprocess
+      ? await getTweetsInRange(dateRange.startDate, dateRange.endDate)
+      : await getUnprocessedTweets(unprocessedStartDate, dateRange.endDate);
+
+    // 最大件数を超える分は次回に回す（古いものから処理する）
+    const maxTweets = options?.maxTweets;
+    const limited = maxTweets !== undefined && rows.length > maxTweets;
+    const tweets = rows
+      .slice(0, limited ? maxTweets : undefined)
+      .map(toTweetData);
     if (tweets.length === 0) {
       logInfo("処理対象のツイートがありませんでした");
       return;
     }
+    if (limited) {
+      logInfo(
+        `最大件数（${maxTweets}件）を超えるため、残りの${
+          rows.length - tweets.length
+        }件は次回に処理します`
+      );
+    }
+    // 件数を絞った場合、次回は最後に処理したツイートの日時から続ける
+    const cutoffAt = limited
+      ? tweets[tweets.length - 1].tweetDate
+      : dateRange.endDate;
 
     logInfo(`${tweets.length}件のツイートを処理します`);
 
     // 2. ツイートごとに処理
-    const processedContents: SummarizedContent[] = [];
+    // 2.0〜2.1 はすべてのツイートについて先に行い、まとめて分類できるようにする
+    const fetchedItems: {
+      tweet: TweetData;
+      scrapedContent?: ScrapedContent;
+    }[] = [];
 
     for (const tweet of tweets) {
       try {
-        // 2.1 リンク先をスクレイピング
+        // 2.0 スレッドの続きと引用ツイートを展開（展開済みの場合は再利用）
+        if (options?.expandThreads && !tweet.expandedContent) {
+          const expandedContent = await expandTweet(tweet);
+          if (expandedContent) {
+            tweet.expandedContent = expandedContent;
+            if (tweet.id) {
+              await updateTweetExpandedContent(tweet.id, expandedContent);
+            }
+          }
+        }
+
+        // 2.1 リンク先をスクレイピング（キャッシュ済みの場合は再利用）
         let scrapedContent = undefined;
         if (tweet.contentLink) {
           logInfo(`リンク先のスクレイピングを行います: ${tweet.contentLink}`);
-          scrapedContent = await scrapeUrl(tweet.contentLink);
+          scrapedContent = await scrapeUrl(tweet.contentLink, {
+            refresh: options?.refreshScrape,
+          });
         }
 
-        // 2.2 コンテンツを分類（メインカテゴリとサブカテゴリ）
-        logInfo(`コンテンツの分類を行います: ${tweet.tweetLink}`);
-        const { category, subCategory } = await classifyTweetWithSubCategory(
-          tweet,
-          scrapedContent
-        );
-
-        // 分類結果をDBに保存
-        await saveTweet({
-          tweetDate: tweet.tweetDate,
-          account: tweet.account,
-          tweetLink: tweet.tweetLink,
-          contentLink: tweet.contentLink,
-          content: tweet.content,
-          category: category,
-          // サブカテゴリはDBスキーマに追加されていないため保存しない
+        fetchedItems.push({ tweet, scrapedContent });
+      } catch (error) {
+        logError(`ツイート処理中にエラーが発生しました: ${tweet.tweetLink}`, {
+          error: error instanceof Error ? error.message : String(error),
         });
+      }
+    }
+
+    // 2.2 まとめて分類する場合は、同じ記事のツイートを1件に絞って先に分類しておく
+    const batchClassifications = new Map<TweetData, FullClassificationResult>();
+    if (options?.batchClassify) {
+      const batchUrls = new Set<string>();
+      const batchItems = fetchedItems.filter(({ scrapedContent }) => {
+        const canonicalUrl = scrapedContent?.canonicalUrl;
+        if (!canonicalUrl) {
+          return true;
+        }
+        if (batchUrls.has(canonicalUrl)) {
+          return false;
+        }
+        batchUrls.add(canonicalUrl);
+        return true;
+      });
+      const results = await classifyTweetsWithSubCategory(batchItems);
+      batchItems.forEach(({ tweet }, index) =>
+        batchClassifications.set(tweet, results[index])
+      );
+    }
+
+    const processedContents: SummarizedContent[] = [];
+    // 同じ記事を複数のツイートで取り上げている場合は1回だけ紹介する
+    const narratedUrls = new Set<string>();
+    const duplicateTweetIds: number[] = [];
 
-        // 2.3 コンテンツを要約
+    for (const { tweet, scrapedContent } of fetchedItems) {
+      try {
+        // 2.3 紹介済みの記事ならスキップ
+        const canonicalUrl = scrapedContent?.canonicalUrl;
+        if (canonicalUrl && narratedUrls.has(canonicalUrl)) {
+          logInfo(
+            `同じ記事を紹介済みのためスキップします: ${tweet.tweetLink} (${canonicalUrl})`
+          );
+          if (tweet.id) {
+            duplicateTweetIds.push(tweet.id);
+          }
+          continue;
+        }
+
+        // 2.4 コンテンツを分類（メインカテゴリとサブカテゴリ、まとめて分類済みの場合はその結果を使う）
+        let classification = batchClassifications.get(tweet);
+        if (!classification) {
+          logInfo(`コンテンツの分類を行います: ${tweet.tweetLink}`);
+          classification = await classifyTweetWithSubCategory(
+            tweet,
+            scrapedContent
+          );
+        }
+        const { category, subCategory } = classification;
+
+        // 分類結果をDBに保存（サブカテゴリはDBスキーマに追加されていないため保存しない）
+        if (tweet.id) {
+          await updateTweetCategory(tweet.id, category);
+        }
+
+        // 2.5 コンテンツを要約
         logInfo(`コンテンツの要約を行います: ${tweet.tweetLink}`);
         const summarizedContent = await summarizeTweet(
           tweet,
@@ -84,10 +267,8 @@ export async function processAll(options?: { maxTweets?: number }) {
         summarizedContent.subCategory = subCategory;
 
         processedContents.push(summarizedContent);
-
-        // 処理済みとしてマーク
-        if (tweet.id) {
-          await markTweetAsProcessed(tweet.id);
+        if (canonicalUrl) {
+          narratedUrls.add(canonicalUrl);
         }
       } catch (error) {
         logError(`ツイート処理中にエラーが発生しました: ${tweet.tweetLink}`, {
@@ -95,6 +276,12 @@ export async function processAll(options?: { maxTweets?: number }) {
         });
       }
     }
+    logInfo("スクレイピングのクロールマナーの適用状況", {
+      ...getPolitenessMetrics(),
+    });
+    logInfo("分類の実行状況（デフォルトの分類で代用した回数を含む）", {
+      ...getClassificationMetrics(),
+    });
 
     // コンテンツをグループ化する関数
     function groupContentsByCategory(
@@ -193,15 +380,23 @@ export async function processAll(options?: { maxTweets?: number }) {
     logInfo("Podcastエピソード情報をデータベースに保存します");
     const tweetIds = processedContents
       .map((content) => content.original.id)
-      .filter(Boolean);
+      .filter((id): id is number => Boolean(id));
 
     await savePodcastEpisode({
       title: `お気に入りPodcast ${formatDateTimeJP()}`,
       fileLocation: filePath,
       duration,
       tweets: JSON.stringify(tweetIds),
+      cutoffAt,
     });
 
+    // エピソードに含めたツイート（同じ記事の重複分を含む）を処理済みとしてマーク
+    // （処理中に失敗してエピソードに含められなかったツイートは未処理のまま残り、
+    //   --retry-since でその日時を含めると再度対象になる）
+    for (const tweetId of [...tweetIds, ...duplicateTweetIds]) {
+      await markTweetAsProcessed(tweetId);
+    }
+
     logInfo(
       `Podcast生成が完了しました: ${filePath} (${Math.round(duration)}秒)`
     );
@@ -212,7 +407,8 @@ export async function processAll(options?: { maxTweets?: number }) {
     });
     throw error;
   } finally {
-    // プリズマを切断
+    // ブラウザプールを終了し、プリズマを切断
+    await closeBrowserPool();
     await prisma.$disconnect();
   }
 }
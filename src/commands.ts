@@ -11,6 +11,18 @@ import { getOrCreateRadioJingle, mergeAudioFiles } from "./utils/audio-utils";
 import { processAll } from "./commands-main";
 import { config } from "./config";
 import { textToSpeech } from "./services/tts";
+import {
+  DEFAULT_TWEET_SOURCE,
+  listTweetSources,
+} from "./services/tweet-sources";
+import { importTwitterArchive } from "./services/twitter-archive";
+import {
+  importTweetsFromFile,
+  toFileSourceOptions,
+} from "./services/file-source";
+import { importMastodonExport } from "./services/mastodon";
+import { importBlueskyExport } from "./services/bluesky";
+import { addManualItem } from "./services/manual-item";
 
 // 出力ディレクトリの確認・作成
 const AUDIO_OUTPUT_DIR = path.join(process.cwd(), "output", "audio");
@@ -38,11 +50,92 @@ const processAllCommand: Command = {
       type: "number",
       default: 10,
     },
+    {
+      name: "source",
+      alias: "s",
+      description: `ツイートの取得元（${listTweetSources()
+        .map((source) => source.name)
+        .join(" / ")}）`,
+      type: "string",
+      default: DEFAULT_TWEET_SOURCE,
+    },
+    {
+      name: "since",
+      description:
+        "取り込み開始日時（省略時は前回エピソードの終端日時、初回は1週間前）",
+      type: "string",
+    },
+    {
+      name: "until",
+      description: "取り込み終了日時（省略時は現在時刻）",
+      type: "string",
+    },
+    {
+      name: "input",
+      alias: "i",
+      description: "取得元の入力ファイルのパス（sheets以外の取得元で使用）",
+      type: "string",
+    },
+    {
+      name: "columns",
+      description:
+        "file取得元の列マッピング（例: tweetDate=Created At,account=2）",
+      type: "array",
+    },
+    {
+      name: "header",
+      description: "file取得元のCSVの1行目がヘッダーかどうか",
+      type: "boolean",
+      default: true,
+    },
+    {
+      name: "reprocess",
+      description: "処理済みのツイートも再度対象にする",
+      type: "boolean",
+      default: false,
+    },
+    {
+      name: "retry-since",
+      description:
+        "この日時以降の未処理のツイート（前回処理に失敗したものなど）も対象にする",
+      type: "string",
+    },
+    {
+      name: "refresh-scrape",
+      description: "キャッシュ済みのスクレイピング結果を使わずに取得し直す",
+      type: "boolean",
+      default: false,
+    },
+    {
+      name: "expand-threads",
+      description:
+        "X（旧Twitter）のツイートのページからスレッドの続きと引用ツイートを取り込む",
+      type: "boolean",
+      default: false,
+    },
+    {
+      name: "batch-classify",
+      description:
+        "複数のツイートを1回のLLM呼び出しでまとめて分類する（件数はLLM_CLASSIFICATION_BATCH_SIZE）",
+      type: "boolean",
+      default: false,
+    },
   ],
   handler: async (args) => {
     try {
       // processAll関数を実行
-      const result = await processAll({ maxTweets: args.limit });
+      const result = await processAll({
+        maxTweets: args.limit,
+        source: args.source,
+        sourceOptions: args,
+        since: args.since,
+        until: args.until,
+        reprocess: args.reprocess,
+        retrySince: args["retry-since"],
+        refreshScrape: args["refresh-scrape"],
+        expandThreads: args["expand-threads"],
+        batchClassify: args["batch-classify"],
+      });
 
       // 処理結果がなければ終了
       if (!result) {
@@ -65,6 +158,180 @@ const processAllCommand: Command = {
   },
 };
 
+/**
+ * Twitterアーカイブを取り込むコマンド
+ */
+const importTwitterArchiveCommand: Command = {
+  name: "import-twitter-archive",
+  description:
+    "Twitter公式データアーカイブのいいね・ブックマークをデータベースに取り込みます",
+  options: [
+    {
+      name: "input",
+      alias: "i",
+      description: "アーカイブのパス（展開済みディレクトリまたはzip）",
+      type: "string",
+      required: true,
+    },
+  ],
+  handler: async (args) => {
+    try {
+      const tweets = await importTwitterArchive(args.input);
+      logInfo(`アーカイブの取り込みが完了しました: ${tweets.length}件`);
+    } catch (error) {
+      logError("アーカイブの取り込み中にエラーが発生しました", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+};
+
+/**
+ * CSV/TSV/JSONLファイルを取り込むコマンド
+ */
+const importFileCommand: Command = {
+  name: "import-file",
+  description:
+    "CSV/TSV/JSONLファイルのツイートデータをデータベースに取り込みます",
+  options: [
+    {
+      name: "input",
+      alias: "i",
+      description: "取り込むファイルのパス（.csv / .tsv / .jsonl）",
+      type: "string",
+      required: true,
+    },
+    {
+      name: "columns",
+      description:
+        "列マッピング（項目=ヘッダー名または列番号、例: tweetDate=Created At,account=2）",
+      type: "array",
+    },
+    {
+      name: "header",
+      description: "CSVの1行目がヘッダーかどうか",
+      type: "boolean",
+      default: true,
+    },
+  ],
+  handler: async (args) => {
+    try {
+      const tweets = await importTweetsFromFile(
+        args.input,
+        toFileSourceOptions(args)
+      );
+      logInfo(`ファイルの取り込みが完了しました: ${tweets.length}件`);
+    } catch (error) {
+      logError("ファイルの取り込み中にエラーが発生しました", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+};
+
+/**
+ * Mastodonのエクスポートを取り込むコマンド
+ */
+const importMastodonCommand: Command = {
+  name: "import-mastodon",
+  description:
+    "Mastodonのエクスポート（投稿・ブースト・お気に入り）をデータベースに取り込みます",
+  options: [
+    {
+      name: "input",
+      alias: "i",
+      description: "outbox.json / likes.json またはそれらを含むディレクトリ",
+      type: "string",
+      required: true,
+    },
+  ],
+  handler: async (args) => {
+    try {
+      const tweets = await importMastodonExport(args.input);
+      logInfo(
+        `Mastodonエクスポートの取り込みが完了しました: ${tweets.length}件`
+      );
+    } catch (error) {
+      logError("Mastodonエクスポートの取り込み中にエラーが発生しました", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+};
+
+/**
+ * Blueskyのエクスポートを取り込むコマンド
+ */
+const importBlueskyCommand: Command = {
+  name: "import-bluesky",
+  description: "Blueskyのいいねエクスポートをデータベースに取り込みます",
+  options: [
+    {
+      name: "input",
+      alias: "i",
+      description: "リポジトリエクスポート（.car）またはJSONファイルのパス",
+      type: "string",
+      required: true,
+    },
+  ],
+  handler: async (args) => {
+    try {
+      const tweets = await importBlueskyExport(args.input);
+      logInfo(
+        `Blueskyエクスポートの取り込みが完了しました: ${tweets.length}件`
+      );
+    } catch (error) {
+      logError("Blueskyエクスポートの取り込み中にエラーが発生しました", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+};
+
+/**
+ * 記事を手動で処理対象に追加するコマンド
+ */
+const addItemCommand: Command = {
+  name: "add-item",
+  description:
+    "ツイートされていない記事を次回のエピソードの処理対象に追加します",
+  options: [
+    {
+      name: "url",
+      alias: "u",
+      description: "追加する記事のURL",
+      type: "string",
+      required: true,
+    },
+    {
+      name: "note",
+      alias: "n",
+      description:
+        "記事についてのメモ（ツイート本文の代わりに要約・分類に使用）",
+      type: "string",
+    },
+    {
+      name: "account",
+      description:
+        "追加者のアカウント名（省略時は MANUAL_ITEM_ACCOUNT またはOSのユーザー名）",
+      type: "string",
+    },
+  ],
+  handler: async (args) => {
+    try {
+      await addManualItem({
+        url: args.url,
+        note: args.note,
+        account: args.account,
+      });
+    } catch (error) {
+      logError("記事の追加中にエラーが発生しました", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+};
+
 /**
  * ラジオ風の挨拶と結びを生成するコマンド
  */
@@ -347,6 +614,11 @@ const generateAudioCommand: Command = {
  */
 export const commands: Command[] = [
   processAllCommand,
+  importTwitterArchiveCommand,
+  importFileCommand,
+  importMastodonCommand,
+  importBlueskyCommand,
+  addItemCommand,
   generateJinglesCommand,
   mergeAudioFilesCommand,
   addRadioJinglesCommand,
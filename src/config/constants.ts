@@ -11,6 +11,61 @@ export enum ContentCategory {
   OTHER = "OTHER",
 }
 
+// 投稿元のプラットフォーム
+export enum SourcePlatform {
+  TWITTER = "TWITTER",
+  MASTODON = "MASTODON",
+  BLUESKY = "BLUESKY",
+  RSS = "RSS",
+  MANUAL = "MANUAL", // add-item コマンドで手動追加
+}
+
+// プラットフォームの表示名
+export const PlatformNames = {
+  [SourcePlatform.TWITTER]: "X（旧Twitter）",
+  [SourcePlatform.MASTODON]: "Mastodon",
+  [SourcePlatform.BLUESKY]: "Bluesky",
+  [SourcePlatform.RSS]: "ブログ",
+  [SourcePlatform.MANUAL]: "手動追加",
+};
+
+// リンク先コンテンツの種類
+export enum MediaType {
+  ARTICLE = "ARTICLE",
+  VIDEO = "VIDEO",
+  PODCAST = "PODCAST",
+  DOCUMENT = "DOCUMENT", // PDFなど
+}
+
+// コンテンツの種類の表示名
+export const MediaTypeNames = {
+  [MediaType.ARTICLE]: "記事",
+  [MediaType.VIDEO]: "動画",
+  [MediaType.PODCAST]: "ポッドキャスト",
+  [MediaType.DOCUMENT]: "資料",
+};
+
+// スクレイピングに失敗した理由
+export enum ScrapeFailureReason {
+  PAYWALL = "PAYWALL", // 有料会員限定
+  LOGIN_REQUIRED = "LOGIN_REQUIRED", // ログインが必要
+  BOT_CHALLENGE = "BOT_CHALLENGE", // CAPTCHAやCloudflareなどのボット対策
+  NOT_FOUND = "NOT_FOUND", // ページが存在しない
+  TIMEOUT = "TIMEOUT", // 読み込みがタイムアウト
+  ROBOTS_DISALLOWED = "ROBOTS_DISALLOWED", // robots.txtで禁止されている
+}
+
+// スクレイピングに失敗した理由の表示名
+export const ScrapeFailureReasonNames = {
+  [ScrapeFailureReason.PAYWALL]: "有料会員限定の記事",
+  [ScrapeFailureReason.LOGIN_REQUIRED]: "ログインが必要なページ",
+  [ScrapeFailureReason.BOT_CHALLENGE]: "ボット対策で閲覧を制限しているページ",
+  [ScrapeFailureReason.NOT_FOUND]: "削除されたか存在しないページ",
+  [ScrapeFailureReason.TIMEOUT]: "読み込みがタイムアウトしたページ",
+  [ScrapeFailureReason.ROBOTS_DISALLOWED]:
+    "robots.txtで取得が禁止されているページ",
+};
+
 // 技術系サブカテゴリ
 export enum TechSubCategory {
   PROGRAMMING_LANGUAGE = "PROGRAMMING_LANGUAGE", // プログラミング言語
@@ -46,6 +101,13 @@ export const SubCategoryNames = {
   [OtherSubCategory.OTHER_GENERAL]: "その他の話題",
 };
 
+// LLMのプロバイダ
+export enum LlmProviderType {
+  OPENAI = "openai",
+  OPENAI_COMPATIBLE = "openai-compatible", // Ollamaやllama.cppなどのOpenAI互換サーバー
+  FAKE = "fake", // 決まった応答を返す（テスト用）
+}
+
 // ログレベル
 export enum LogLevel {
   INFO = "INFO",
@@ -84,4 +146,156 @@ export const SHEET_SETTINGS = {
   CONTENT_LINK_COL_INDEX: 2,
   TWEET_LINK_COL_INDEX: 3,
   CONTENT_COL_INDEX: 4,
+  // ヘッダー行の自動検出に使う列名（ロケールやIFTTTのレシピによる違いを吸収）
+  HEADER_ALIASES: {
+    tweetDate: ["Date", "CreatedAt", "Created At", "日付", "日時", "作成日時"],
+    account: [
+      "Account",
+      "UserName",
+      "User Name",
+      "User",
+      "アカウント",
+      "ユーザー名",
+    ],
+    contentLink: ["ContentLink", "Link", "URL", "FirstLinkUrl", "リンク"],
+    tweetLink: [
+      "TweetLink",
+      "LinkToTweet",
+      "Tweet URL",
+      "ツイートリンク",
+      "ツイートURL",
+    ],
+    content: ["Content", "Text", "Tweet", "本文", "内容", "テキスト"],
+  },
+  // ヘッダー行と判定するために必要な一致列数
+  HEADER_MIN_MATCHES: 2,
+};
+
+// URL解決関連
+export const URL_SETTINGS = {
+  MAX_REDIRECTS: 10, // 追跡するリダイレクトの最大回数
+  TIMEOUT_MS: 15000,
+  USER_AGENT:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
+  // 取り除くトラッキングパラメータ（前方一致）
+  TRACKING_PARAM_PREFIXES: ["utm_"],
+  // 取り除くトラッキングパラメータ（完全一致）
+  TRACKING_PARAMS: [
+    "fbclid",
+    "gclid",
+    "dclid",
+    "msclkid",
+    "igshid",
+    "mc_cid",
+    "mc_eid",
+    "ref_src",
+    "ref_url",
+  ],
+};
+
+// スクレイピング関連
+export const SCRAPER_SETTINGS = {
+  HTTP_TIMEOUT_MS: 15000,
+  MAX_RESPONSE_BYTES: 30 * 1024 * 1024, // PDFを含むレスポンスの最大サイズ
+  PDF_MAX_PAGES: 50, // テキストを抽出するPDFの最大ページ数
+  // HTTPで取得した本文がこの文字数未満ならJavaScriptで描画されるページとみなす
+  MIN_CONTENT_LENGTH: 200,
+  // noscriptにJavaScriptの有効化を求める文言があり、本文がこの文字数未満ならJavaScriptで描画されるページとみなす
+  NOSCRIPT_MAX_CONTENT_LENGTH: 1000,
+  NOSCRIPT_PATTERNS: [
+    "enable javascript",
+    "javascript is disabled",
+    "javascript is required",
+    "javascriptを有効",
+    "javascriptが無効",
+  ],
+  ROBOTS_TIMEOUT_MS: 10000, // robots.txtの取得のタイムアウト
+  MAX_CRAWL_DELAY_MS: 60000, // robots.txtのCrawl-delayとして従う最大の間隔
+};
+
+// 動画・ポッドキャスト関連
+export const MEDIA_SETTINGS = {
+  // 字幕の優先言語（手動作成の字幕を自動生成の字幕より優先する）
+  CAPTION_LANGUAGES: ["ja", "en"],
+  // ポッドキャストのエピソードページとして扱うURL
+  PODCAST_URL_PATTERNS: [
+    /^https?:\/\/podcasts\.apple\.com\/.+[?&]i=\d+/,
+    /^https?:\/\/open\.spotify\.com\/episode\//,
+    /^https?:\/\/listen\.style\/p\/[^/]+\/[^/]+/,
+    /^https?:\/\/stand\.fm\/episodes\//,
+  ],
+};
+
+// 有料記事・ログイン・ボット対策ページの検出
+export const FAILURE_DETECTION = {
+  // ボット対策のチャレンジページのタイトル
+  BOT_CHALLENGE_TITLES: [
+    "just a moment...",
+    "attention required! | cloudflare",
+    "access denied",
+    "verify you are human",
+    "are you a robot?",
+    "pardon our interruption",
+  ],
+  // ボット対策のチャレンジページの要素
+  BOT_CHALLENGE_SELECTORS: [
+    "#challenge-form",
+    "#challenge-running",
+    "#cf-challenge-running",
+    ".cf-browser-verification",
+    'script[src*="challenges.cloudflare.com"]',
+    'iframe[src*="captcha-delivery.com"]',
+    "#px-captcha",
+  ],
+  // 本文が短い場合にボット対策とみなすCAPTCHAの要素（コメント欄などにも置かれるため）
+  CAPTCHA_SELECTORS: [
+    ".g-recaptcha",
+    ".h-captcha",
+    'iframe[src*="recaptcha"]',
+    'iframe[src*="hcaptcha"]',
+  ],
+  // 存在しないページのタイトル（論文番号などに含まれる数字と区別するため単語単位で照合する）
+  NOT_FOUND_TITLES: [
+    /\b404\b/,
+    /\bnot found\b/i,
+    /ページが見つかりません/,
+    /お探しのページは(見つかりません|存在しません)/,
+  ],
+  // ログインページのURL（パス）
+  LOGIN_URL_PATTERNS: [
+    /\/(login|signin|sign-in|sign_in|log-in)(\/|$)/i,
+    /\/i\/flow\/login/i,
+    /\/sessions?\/new(\/|$)/i,
+  ],
+  // 本文が短い場合にログインが必要とみなす文言
+  LOGIN_PATTERNS: [
+    "ログインしてください",
+    "ログインが必要です",
+    "ログインすると続きを",
+    "log in to continue",
+    "sign in to continue",
+    "please log in",
+    "please sign in",
+  ],
+  // 有料記事の要素
+  PAYWALL_SELECTORS: [
+    ".paywall",
+    "#paywall",
+    "[data-paywall]",
+    ".tp-container-inner",
+    ".piano-paywall",
+  ],
+  // 有料記事の文言
+  PAYWALL_PATTERNS: [
+    "有料会員限定",
+    "有料会員になると",
+    "有料会員の方のみ",
+    "この記事は会員限定です",
+    "この続きをみるには",
+    "この記事の続きを読むには",
+    "subscribe to continue reading",
+    "subscribe to read",
+    "this article is for subscribers",
+    "already a subscriber?",
+  ],
 };
@@ -4,7 +4,12 @@
  */
 import dotenv from "dotenv";
 import path from "path";
-import { PATHS } from "./constants";
+import {
+  LlmProviderType,
+  PATHS,
+  SHEET_SETTINGS,
+  URL_SETTINGS,
+} from "./constants";
 
 // 環境変数の読み込み
 dotenv.config();
@@ -20,17 +25,90 @@ const requireEnv = (key: string): string => {
   return value;
 };
 
+// タイムゾーン名の確認関数（IANAタイムゾーン名のみ有効）
+const requireTimeZone = (key: string, defaultValue: string): string => {
+  const value = process.env[key] || defaultValue;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+  } catch {
+    throw new Error(
+      `環境変数 ${key} のタイムゾーン「${value}」が無効です。Asia/Tokyo のようなIANAタイムゾーン名を指定してください。`
+    );
+  }
+  return value;
+};
+
+// 選択肢のいずれかである環境変数の確認関数
+const requireChoice = <T extends string>(
+  key: string,
+  choices: T[],
+  defaultValue: T
+): T => {
+  const value = (process.env[key] || defaultValue) as T;
+  if (!choices.includes(value)) {
+    throw new Error(
+      `環境変数 ${key} の値「${value}」が無効です。${choices.join(
+        " / "
+      )} のいずれかを指定してください。`
+    );
+  }
+  return value;
+};
+
+// 使用するLLMのプロバイダ（OpenAI以外の場合はOpenAIのAPIキーを必須としない）
+const llmProvider = requireChoice(
+  "LLM_PROVIDER",
+  Object.values(LlmProviderType),
+  LlmProviderType.OPENAI
+);
+
+// 処理ごとのモデル名（個別の指定、LLM_MODEL、gpt-4 の順に使う）
+const llmModel = (key: string): string =>
+  process.env[key] || process.env.LLM_MODEL || "gpt-4";
+
 // 設定オブジェクト
 export const config = {
   // Google Sheets API
   googleSheets: {
     spreadsheetId: requireEnv("GOOGLE_SHEETS_ID"),
     apiKey: requireEnv("GOOGLE_SHEETS_API_KEY"),
+    // 取得するシート名（省略時は最初のシート）
+    sheetName: process.env.GOOGLE_SHEETS_SHEET_NAME || "",
+    range: process.env.GOOGLE_SHEETS_RANGE || SHEET_SETTINGS.RANGE,
+    // 列マッピング（例: tweetDate=日付,account=ユーザー名,content=4）
+    columns: process.env.GOOGLE_SHEETS_COLUMNS || "",
+    // ヘッダー行の扱い（auto: 列名から自動検出 / true: あり / false: なし）
+    header: process.env.GOOGLE_SHEETS_HEADER || "auto",
   },
 
   // OpenAI API
   openai: {
-    apiKey: requireEnv("OPENAI_API_KEY"),
+    apiKey:
+      llmProvider === LlmProviderType.OPENAI
+        ? requireEnv("OPENAI_API_KEY")
+        : process.env.OPENAI_API_KEY || "",
+  },
+
+  // LLM
+  llm: {
+    provider: llmProvider,
+    // OpenAI互換サーバーのURL（例: Ollamaは http://localhost:11434/v1）
+    baseUrl: process.env.LLM_BASE_URL || "",
+    // OpenAI互換サーバーのAPIキー（不要なサーバーでは省略可）
+    apiKey: process.env.LLM_API_KEY || "",
+    // 処理ごとのモデル名
+    models: {
+      classifier: llmModel("LLM_MODEL_CLASSIFIER"),
+      summarizer: llmModel("LLM_MODEL_SUMMARIZER"),
+      converter: llmModel("LLM_MODEL_CONVERTER"),
+    },
+    // 応答のJSONのスキーマをAPIに渡すかどうか（構造化出力に対応したモデルでのみ有効にする）
+    structuredOutputs: process.env.LLM_STRUCTURED_OUTPUTS === "true",
+    // JSONの応答がスキーマに一致しない場合に出力し直してもらう回数
+    jsonRepairAttempts: Number(process.env.LLM_JSON_REPAIR_ATTEMPTS ?? 2),
+    // まとめて分類する場合に1回の呼び出しで分類する件数
+    classificationBatchSize:
+      Number(process.env.LLM_CLASSIFICATION_BATCH_SIZE) || 10,
   },
 
   // 音声合成
@@ -50,10 +128,35 @@ export const config = {
     logsDir: path.resolve(process.cwd(), PATHS.LOGS_DIR),
   },
 
+  // スクレイピング
+  scraper: {
+    // ブラウザで同時に開くページ数の上限
+    browserConcurrency: Number(process.env.SCRAPER_BROWSER_CONCURRENCY) || 2,
+    // 同じホストへのアクセス間隔（ミリ秒、robots.txtのCrawl-delayの方が長い場合はそちらに従う）
+    hostDelayMs: Number(process.env.SCRAPER_HOST_DELAY_MS ?? 1000),
+    // robots.txtの判定に使うユーザーエージェント名
+    robotsUserAgent: process.env.SCRAPER_USER_AGENT || "twitter-audio",
+    // HTTPリクエスト（URL解決、robots.txt、ページの取得）のUser-Agentヘッダー
+    httpUserAgent:
+      process.env.SCRAPER_HTTP_USER_AGENT || URL_SETTINGS.USER_AGENT,
+    // robots.txtに従うかどうか（falseの場合は確認しない）
+    respectRobotsTxt: process.env.SCRAPER_RESPECT_ROBOTS_TXT !== "false",
+    // スクレイピング結果のキャッシュの有効期間（時間、0でキャッシュを使わない）
+    cacheTtlHours: Number(process.env.SCRAPE_CACHE_TTL_HOURS ?? 168),
+  },
+
+  // 手動追加（add-item コマンド）
+  manualItem: {
+    // 追加した記事のアカウント名（省略時はadd-itemの実行時にOSのユーザー名を使う）
+    account: process.env.MANUAL_ITEM_ACCOUNT || "",
+  },
+
   // 日付設定
   date: {
     oneWeekMs: 7 * 24 * 60 * 60 * 1000,
-    // 処理対象とする日付の範囲（現在時刻から1週間前まで）
+    // 取得元の日時のタイムゾーン（タイムゾーン指定のない日時はこのタイムゾーンとして解釈）
+    sourceTimeZone: requireTimeZone("SOURCE_TIMEZONE", "Asia/Tokyo"),
+    // 前回エピソードがない場合に処理対象とする日付の範囲（現在時刻から1週間前まで）
     getDateRange: (): { startDate: Date; endDate: Date } => {
       const endDate = new Date();
       const startDate = new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
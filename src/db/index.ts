@@ -2,7 +2,9 @@
  * データベース接続
  * Prismaクライアントのエクスポート
  */
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, ProcessedTweet } from "@prisma/client";
+import { ContentCategory, SourcePlatform } from "../config/constants";
+import { TweetData } from "../types";
 
 // Prismaクライアントのシングルトンインスタンス
 const prisma = new PrismaClient();
@@ -18,12 +20,18 @@ export const saveTweet = async (data: {
   tweetLink: string;
   contentLink?: string | null;
   content: string;
+  expandedContent?: string | null;
   category: string;
+  platform?: string;
 }) => {
   return prisma.processedTweet.upsert({
     where: { tweetLink: data.tweetLink },
+    // 再取り込み時は分類済みのカテゴリ、展開済みの本文、処理済みフラグを保持する
     update: {
-      category: data.category,
+      ...(data.category ? { category: data.category } : {}),
+      ...(data.expandedContent
+        ? { expandedContent: data.expandedContent }
+        : {}),
       content: data.content,
     },
     create: {
@@ -32,11 +40,22 @@ export const saveTweet = async (data: {
       tweetLink: data.tweetLink,
       contentLink: data.contentLink,
       content: data.content,
+      expandedContent: data.expandedContent,
       category: data.category,
+      platform: data.platform,
     },
   });
 };
 
+/**
+ * tweetLinkでツイートを取得
+ */
+export const findTweetByLink = async (tweetLink: string) => {
+  return prisma.processedTweet.findUnique({
+    where: { tweetLink },
+  });
+};
+
 /**
  * Podcastエピソードの保存
  */
@@ -45,12 +64,56 @@ export const savePodcastEpisode = async (data: {
   fileLocation: string;
   duration: number;
   tweets: string;
+  cutoffAt?: Date;
 }) => {
   return prisma.podcastEpisode.create({
     data,
   });
 };
 
+/**
+ * 最新のPodcastエピソードを取得
+ */
+export const getLatestPodcastEpisode = async () => {
+  return prisma.podcastEpisode.findFirst({
+    orderBy: {
+      generatedAt: "desc",
+    },
+  });
+};
+
+/**
+ * スクレイピング結果をキャッシュから取得（元のURLまたは正規URLで検索）
+ */
+export const findScrapedPage = async (url: string) => {
+  return prisma.scrapedPage.findFirst({
+    where: { OR: [{ canonicalUrl: url }, { url }] },
+    orderBy: { fetchedAt: "desc" },
+  });
+};
+
+/**
+ * スクレイピング結果をキャッシュに保存（正規URLごとに1件）
+ */
+export const saveScrapedPage = async (data: {
+  url: string;
+  canonicalUrl: string;
+  title?: string | null;
+  siteName?: string | null;
+  publishDate?: string | null;
+  content: string;
+  metadata?: string | null;
+  contentHash: string;
+  error?: string | null;
+}) => {
+  const fetchedAt = new Date();
+  return prisma.scrapedPage.upsert({
+    where: { canonicalUrl: data.canonicalUrl },
+    update: { ...data, fetchedAt },
+    create: { ...data, fetchedAt },
+  });
+};
+
 /**
  * ログエントリの保存
  */
@@ -65,7 +128,7 @@ export const saveLogEntry = async (data: {
 };
 
 /**
- * 過去1週間の間に処理されていないツイートを取得
+ * 指定期間の処理されていないツイートを取得
  */
 export const getUnprocessedTweets = async (startDate: Date, endDate: Date) => {
   return prisma.processedTweet.findMany({
@@ -82,6 +145,49 @@ export const getUnprocessedTweets = async (startDate: Date, endDate: Date) => {
   });
 };
 
+/**
+ * 処理済みかどうかに関わらず指定期間のツイートを取得（再処理用）
+ */
+export const getTweetsInRange = async (startDate: Date, endDate: Date) => {
+  return prisma.processedTweet.findMany({
+    where: {
+      tweetDate: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+    orderBy: {
+      tweetDate: "asc",
+    },
+  });
+};
+
+/**
+ * ツイートの分類結果を保存
+ */
+export const updateTweetCategory = async (
+  tweetId: number,
+  category: string
+) => {
+  return prisma.processedTweet.update({
+    where: { id: tweetId },
+    data: { category },
+  });
+};
+
+/**
+ * スレッドと引用ツイートを展開した本文を保存
+ */
+export const updateTweetExpandedContent = async (
+  tweetId: number,
+  expandedContent: string
+) => {
+  return prisma.processedTweet.update({
+    where: { id: tweetId },
+    data: { expandedContent },
+  });
+};
+
 /**
  * ツイートを処理済みとしてマーク
  */
@@ -91,3 +197,23 @@ export const markTweetAsProcessed = async (tweetId: number) => {
     data: { processed: true },
   });
 };
+
+/**
+ * データベースの行をTweetDataに変換
+ */
+export const toTweetData = (row: ProcessedTweet): TweetData => {
+  return {
+    id: row.id,
+    tweetDate: row.tweetDate,
+    account: row.account,
+    tweetLink: row.tweetLink,
+    contentLink: row.contentLink,
+    content: row.content,
+    expandedContent: row.expandedContent,
+    category: (row.category as ContentCategory) || undefined,
+    platform: row.platform as SourcePlatform,
+    processed: row.processed,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+};
@@ -0,0 +1,208 @@
+/**
+ * Blueskyエクスポート取り込みモジュール
+ * リポジトリエクスポート（CAR）またはJSONエクスポートから「いいね」した投稿を読み込む
+ */
+import fs from "fs";
+import path from "path";
+import { logInfo } from "../utils/logger";
+import { readCarBlocks } from "../utils/car";
+import { getArray, getField, getString, isRecord } from "../utils/json-value";
+import { SourcePlatform } from "../config/constants";
+import { DateRange, TweetData, TweetSource } from "../types";
+import { filterByDateRange, saveImportedTweets } from "./tweet-importer";
+import { formatExpandedContent } from "./thread-expander";
+
+// いいねレコードの型
+const LIKE_RECORD_TYPE = "app.bsky.feed.like";
+
+/**
+ * AT URIをbsky.appの投稿URLに変換
+ * 例: at://did:plc:xxx/app.bsky.feed.post/abc → https://bsky.app/profile/did:plc:xxx/post/abc
+ * @param uri AT URI
+ * @returns 投稿URL（変換できない場合はそのまま）
+ */
+export const atUriToWebUrl = (uri: string): string => {
+  const match = uri.match(/^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/([^/]+)$/);
+  return match ? `https://bsky.app/profile/${match[1]}/post/${match[2]}` : uri;
+};
+
+/**
+ * いいねレコード（app.bsky.feed.like）
+ */
+interface LikeRecord {
+  $type: typeof LIKE_RECORD_TYPE;
+  createdAt?: string;
+  subject: { uri: string };
+}
+
+/**
+ * 値がいいねレコードかどうか
+ */
+const isLikeRecord = (value: unknown): value is LikeRecord => {
+  const createdAt = getField(value, "createdAt");
+  return (
+    getString(value, "$type") === LIKE_RECORD_TYPE &&
+    !!getString(value, "subject", "uri") &&
+    (createdAt === undefined || typeof createdAt === "string")
+  );
+};
+
+/**
+ * いいねレコードをTweetDataに変換（投稿本文は含まれないためリンクのみ）
+ * @param record app.bsky.feed.like レコード
+ * @returns ツイートデータ
+ */
+const likeRecordToTweetData = (record: LikeRecord): TweetData => {
+  const postUrl = atUriToWebUrl(record.subject.uri);
+  const author = record.subject.uri.match(/^at:\/\/([^/]+)/);
+  return {
+    tweetDate: new Date(record.createdAt || ""),
+    account: author ? author[1] : "unknown",
+    tweetLink: postUrl,
+    contentLink: postUrl,
+    content: "",
+    platform: SourcePlatform.BLUESKY,
+  };
+};
+
+/**
+ * 投稿（PostView）の埋め込みから引用している投稿を取り出す
+ * @param embed post.embed（app.bsky.embed.record#view または recordWithMedia#view）
+ * @returns 引用している投稿（ない場合はundefined）
+ */
+const getQuotedPost = (
+  embed: unknown
+): { author: string; text: string } | undefined => {
+  const nested = getField(embed, "record", "record");
+  const quoted = isRecord(nested) ? nested : getField(embed, "record");
+  const text = getString(quoted, "value", "text");
+  if (!text) {
+    return undefined;
+  }
+  return { author: getString(quoted, "author", "handle") || "", text };
+};
+
+/**
+ * 投稿（PostView）をTweetDataに変換
+ * 引用している投稿があれば展開済みの本文に含める
+ * @param post app.bsky.feed.getActorLikes などの post 要素（uri を持つもの）
+ * @returns ツイートデータ
+ */
+const postViewToTweetData = (post: unknown): TweetData => {
+  const record = getField(post, "record");
+  const text = getString(record, "text") || "";
+
+  // リンクは外部埋め込み、本文中のリンクfacetの順に探す
+  const facetLink = getArray(record, "facets")
+    .flatMap((facet) => getArray(facet, "features"))
+    .find(
+      (feature) =>
+        getString(feature, "$type") === "app.bsky.richtext.facet#link"
+    );
+  const contentLink =
+    getString(post, "embed", "external", "uri") ||
+    getString(record, "embed", "external", "uri") ||
+    getString(facetLink, "uri") ||
+    null;
+
+  return {
+    tweetDate: new Date(
+      getString(record, "createdAt") || getString(post, "indexedAt") || ""
+    ),
+    account:
+      getString(post, "author", "handle") ||
+      getString(post, "author", "did") ||
+      "unknown",
+    tweetLink: atUriToWebUrl(getString(post, "uri") || ""),
+    contentLink,
+    content: text,
+    expandedContent: formatExpandedContent(
+      text,
+      [],
+      getQuotedPost(getField(post, "embed"))
+    ),
+    platform: SourcePlatform.BLUESKY,
+  };
+};
+
+/**
+ * JSONエクスポートを読み込む
+ * getActorLikes の出力（{ feed: [{ post }] }）と、
+ * いいねレコードの配列（listRecords の出力 { records: [{ value }] } を含む）に対応
+ * @param json パース済みのJSON
+ * @returns ツイートデータの配列
+ */
+const loadJsonExport = (json: unknown): TweetData[] => {
+  const feed = getField(json, "feed");
+  if (Array.isArray(feed)) {
+    return feed
+      .map((item) => getField(item, "post"))
+      .filter((post) => !!getString(post, "uri"))
+      .map(postViewToTweetData);
+  }
+
+  const records = Array.isArray(json) ? json : getArray(json, "records");
+  return records
+    .map((record) => {
+      const value = getField(record, "value");
+      return isRecord(value) ? value : record;
+    })
+    .filter(isLikeRecord)
+    .map(likeRecordToTweetData);
+};
+
+/**
+ * Blueskyのエクスポートを読み込む
+ * @param inputPath CARファイル（.car）またはJSONファイルのパス
+ * @returns ツイートデータの配列
+ */
+export const loadBlueskyExport = (inputPath: string): TweetData[] => {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`エクスポートが見つかりません: ${inputPath}`);
+  }
+
+  let tweets: TweetData[];
+  if (path.extname(inputPath).toLowerCase() === ".car") {
+    const blocks: unknown[] = readCarBlocks(fs.readFileSync(inputPath));
+    tweets = blocks.filter(isLikeRecord).map(likeRecordToTweetData);
+  } else {
+    tweets = loadJsonExport(JSON.parse(fs.readFileSync(inputPath, "utf-8")));
+  }
+
+  tweets = tweets.filter((tweet) => !isNaN(tweet.tweetDate.getTime()));
+  logInfo(`${inputPath} から${tweets.length}件の投稿を読み込みました`);
+  return tweets;
+};
+
+/**
+ * Blueskyのエクスポートをデータベースに取り込む
+ * @param inputPath エクスポートのパス
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだツイートデータ
+ */
+export const importBlueskyExport = async (
+  inputPath: string,
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  return saveImportedTweets(loadBlueskyExport(inputPath), dateRange);
+};
+
+/**
+ * Blueskyのエクスポートを取得元とするTweetSource
+ */
+export const blueskyTweetSource: TweetSource = {
+  name: "bluesky",
+  description: "Blueskyのエクスポート（--input にCARまたはJSONファイル）",
+  fetchTweets: async (range, options) => {
+    if (!options?.input) {
+      throw new Error("--input にエクスポートのパスを指定してください");
+    }
+    return filterByDateRange(loadBlueskyExport(options.input), range);
+  },
+};
+
+export default {
+  loadBlueskyExport,
+  importBlueskyExport,
+  blueskyTweetSource,
+};
@@ -0,0 +1,194 @@
+/**
+ * ブラウザプールモジュール
+ * Puppeteerのブラウザを実行中に1回だけ起動し、ページを使い回す
+ * 同時に開くページ数の上限を制御する（同じホストへのアクセスはクロールマナーモジュールで1件ずつに制限する）
+ */
+import puppeteer, { Browser, Page } from "puppeteer";
+import { config } from "../config";
+import { logInfo, logWarn } from "../utils/logger";
+import { withHostLimit } from "./politeness";
+
+/**
+ * ブラウザプールの利用状況
+ */
+export interface BrowserPoolMetrics {
+  browserLaunches: number; // ブラウザを起動した回数
+  pagesCreated: number; // 新しく開いたページ数
+  pagesReused: number; // 使い回したページ数
+  pagesDiscarded: number; // エラーなどで閉じたページ数
+}
+
+// 起動中（または起動処理中）のブラウザ
+let browserPromise: Promise<Browser> | null = null;
+// 使い回し可能なページ
+let idlePages: Page[] = [];
+// 貸し出し中のページ数
+let activePageCount = 0;
+// ページの空きを待っている処理
+let waitingQueue: (() => void)[] = [];
+
+const metrics: BrowserPoolMetrics = {
+  browserLaunches: 0,
+  pagesCreated: 0,
+  pagesReused: 0,
+  pagesDiscarded: 0,
+};
+
+/**
+ * ブラウザを取得（未起動または切断されている場合は起動する）
+ */
+const getBrowser = async (): Promise<Browser> => {
+  if (browserPromise) {
+    const browser = await browserPromise;
+    if (browser.connected) {
+      return browser;
+    }
+    logWarn("ブラウザとの接続が切れたため再起動します");
+    idlePages = [];
+  }
+
+  logInfo("ブラウザプールのブラウザを起動します");
+  metrics.browserLaunches++;
+  const launching = puppeteer.launch({
+    headless: true,
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+  });
+  browserPromise = launching;
+  // 起動に失敗した場合は次の呼び出しで再度起動する
+  launching.catch(() => {
+    if (browserPromise === launching) {
+      browserPromise = null;
+    }
+  });
+  return launching;
+};
+
+/**
+ * ページの空きを待つ（同時に開くページ数の上限を超えないようにする）
+ */
+const acquireSlot = async (): Promise<void> => {
+  if (activePageCount < config.scraper.browserConcurrency) {
+    activePageCount++;
+    return;
+  }
+  // 空いた枠は releaseSlot から直接引き継ぐ
+  await new Promise<void>((resolve) => waitingQueue.push(resolve));
+};
+
+/**
+ * ページの枠を返却し、待っている処理があれば引き継ぐ
+ */
+const releaseSlot = (): void => {
+  const next = waitingQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activePageCount--;
+  }
+};
+
+/**
+ * ページを取得（空いているページがあれば使い回す）
+ */
+const acquirePage = async (): Promise<Page> => {
+  const browser = await getBrowser();
+  while (idlePages.length > 0) {
+    const page = idlePages.pop() as Page;
+    if (!page.isClosed()) {
+      metrics.pagesReused++;
+      return page;
+    }
+  }
+  metrics.pagesCreated++;
+  return browser.newPage();
+};
+
+/**
+ * ページを返却（使い回せるように空白ページに戻す）
+ * @param page 返却するページ
+ * @param reusable 使い回してよいかどうか（エラーが起きたページは閉じる）
+ */
+const releasePage = async (page: Page, reusable: boolean): Promise<void> => {
+  if (reusable && !page.isClosed()) {
+    try {
+      await page.goto("about:blank");
+      idlePages.push(page);
+      return;
+    } catch {
+      // 空白ページに戻せない場合は閉じる
+    }
+  }
+
+  metrics.pagesDiscarded++;
+  await page.close().catch(() => undefined);
+};
+
+/**
+ * プールのページを使って処理を行う
+ * 同じホストへのアクセスは1件ずつ間隔を空け、同時に開くページ数の上限を守って実行する
+ * @param url アクセスするURL（ホストごとのアクセスの制御に使用）
+ * @param fn ページを使う処理
+ * @returns 処理の結果
+ */
+export const withPage = async <T>(
+  url: string,
+  fn: (page: Page) => Promise<T>
+): Promise<T> => {
+  // ホストの順番を待っている間はページの枠を確保しない
+  return withHostLimit(url, async () => {
+    await acquireSlot();
+    try {
+      const page = await acquirePage();
+      let reusable = false;
+      try {
+        const result = await fn(page);
+        reusable = true;
+        return result;
+      } finally {
+        await releasePage(page, reusable);
+      }
+    } finally {
+      releaseSlot();
+    }
+  });
+};
+
+/**
+ * ブラウザプールの利用状況を取得
+ */
+export const getBrowserPoolMetrics = (): BrowserPoolMetrics => ({
+  ...metrics,
+});
+
+/**
+ * ブラウザプールを終了（ブラウザを閉じて利用状況をログに出力する）
+ * ブラウザを起動していない場合は何もしない
+ */
+export const closeBrowserPool = async (): Promise<void> => {
+  if (!browserPromise) {
+    return;
+  }
+
+  const closing = browserPromise;
+  browserPromise = null;
+  idlePages = [];
+  waitingQueue = [];
+  activePageCount = 0;
+
+  try {
+    const browser = await closing;
+    await browser.close();
+  } catch (error) {
+    logWarn("ブラウザの終了中にエラーが発生しました", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  logInfo("ブラウザプールを終了しました", { ...metrics });
+};
+
+export default {
+  withPage,
+  getBrowserPoolMetrics,
+  closeBrowserPool,
+};
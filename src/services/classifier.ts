@@ -2,7 +2,6 @@
  * テキスト分類モジュール
  * コンテンツを「技術系」と「それ以外」に分類し、さらにサブカテゴリに分類
  */
-import OpenAI from "openai";
 import {
   ContentCategory,
   TechSubCategory,
@@ -17,23 +16,167 @@ import {
   ScrapedContent,
 } from "../types";
 import { config } from "../config";
-import { logError, logInfo } from "../utils/logger";
+import { logError, logInfo, logWarn } from "../utils/logger";
 import { retryAsync } from "../utils/error-handler";
+import { completeValidatedJson, LlmJsonSchema } from "./llm";
 
-// OpenAI APIクライアントの初期化
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
+/**
+ * 分類の実行状況（デフォルトの分類で代用した頻度の確認用）
+ */
+export interface ClassificationMetrics {
+  requests: number; // LLMで分類した回数
+  repaired: number; // 応答を出力し直してもらって分類できた回数
+  invalidFallbacks: number; // 応答が形式に一致せず、デフォルトの分類を使った回数
+  errorFallbacks: number; // API呼び出しに失敗し、デフォルトの分類を使った回数
+  batchMisses: number; // まとめて分類した応答に含まれず、個別に分類し直した件数
+}
+
+const metrics: ClassificationMetrics = {
+  requests: 0,
+  repaired: 0,
+  invalidFallbacks: 0,
+  errorFallbacks: 0,
+  batchMisses: 0,
+};
+
+// メインカテゴリの分類結果のスキーマ
+const classificationSchema: LlmJsonSchema = {
+  name: "classification",
+  schema: {
+    type: "object",
+    properties: {
+      category: { type: "string", enum: Object.values(ContentCategory) },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      reasoning: { type: "string" },
+    },
+    required: ["category", "confidence", "reasoning"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * サブカテゴリの分類結果のスキーマ（メインカテゴリのサブカテゴリのみ許可する）
+ * @param mainCategory メインカテゴリ
+ */
+const createSubCategorySchema = (
+  mainCategory: ContentCategory
+): LlmJsonSchema => ({
+  name: "sub_category_classification",
+  schema: {
+    type: "object",
+    properties: {
+      subCategory: {
+        type: "string",
+        enum: Object.values(
+          mainCategory === ContentCategory.TECH
+            ? TechSubCategory
+            : OtherSubCategory
+        ),
+      },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      reasoning: { type: "string" },
+    },
+    required: ["subCategory", "confidence", "reasoning"],
+    additionalProperties: false,
+  },
 });
 
+// メインカテゴリとサブカテゴリをまとめた分類結果の項目
+const fullClassificationProperties = {
+  category: { type: "string" as const, enum: Object.values(ContentCategory) },
+  subCategory: {
+    type: "string" as const,
+    enum: [
+      ...Object.values(TechSubCategory),
+      ...Object.values(OtherSubCategory),
+    ],
+  },
+  confidence: { type: "number" as const, minimum: 0, maximum: 1 },
+  reasoning: { type: "string" as const },
+};
+
+// メインカテゴリとサブカテゴリをまとめた分類結果のスキーマ
+const fullClassificationSchema: LlmJsonSchema = {
+  name: "full_classification",
+  schema: {
+    type: "object",
+    properties: fullClassificationProperties,
+    required: ["category", "subCategory", "confidence", "reasoning"],
+    additionalProperties: false,
+  },
+};
+
+// 複数のコンテンツをまとめた分類結果のスキーマ（idは入力のコンテンツの番号）
+const batchClassificationSchema: LlmJsonSchema = {
+  name: "batch_classification",
+  schema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            ...fullClassificationProperties,
+          },
+          required: [
+            "id",
+            "category",
+            "subCategory",
+            "confidence",
+            "reasoning",
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["results"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * スキーマで検証した応答の実行状況を記録する
+ * @param attempts 応答を生成した回数
+ * @param valid スキーマに一致したかどうか
+ */
+const recordAttempts = (attempts: number, valid: boolean): void => {
+  metrics.requests++;
+  if (!valid) {
+    metrics.invalidFallbacks++;
+  } else if (attempts > 1) {
+    metrics.repaired++;
+  }
+};
+
+// 技術系サブカテゴリの説明
+const TECH_SUBCATEGORY_GUIDE = `PROGRAMMING_LANGUAGE: プログラミング言語に関する内容（JavaScript, Python, Rustなど）
+FRAMEWORK: フレームワークに関する内容（React, Vue, Laravel, Djangoなど）
+AI_ML: AI・機械学習に関する内容（ChatGPT, 機械学習モデル, LLMなど）
+TOOLS: 開発ツールに関する内容（Git, Docker, VSCode, CI/CDなど）
+WEB_DEV: Web開発全般に関する内容（HTML, CSS, フロントエンド, バックエンドなど）
+OTHER_TECH: その他の技術トピック（上記に当てはまらない技術的な内容）`;
+
+// その他サブカテゴリの説明
+const OTHER_SUBCATEGORY_GUIDE = `NEWS: ニュース・時事問題に関する内容
+ENTERTAINMENT: エンターテイメント（映画, 音楽, ゲームなど）に関する内容
+LIFESTYLE: ライフスタイル（健康, 食事, 仕事など）に関する内容
+HOBBY: 趣味（旅行, 読書, スポーツなど）に関する内容
+OTHER_GENERAL: その他の一般的な話題`;
+
+// 技術系の判断基準
+const TECH_CATEGORY_GUIDE = `技術系には、プログラミング、ソフトウェア開発、IT業界、コンピュータサイエンス、
+ハードウェア、ネットワーク、セキュリティ、人工知能、データサイエンス、
+Webサービス、モバイルアプリ、クラウド技術などが含まれます。`;
+
 /**
  * コンテンツの分類プロンプト
  */
 const createClassificationPrompt = (content: string): string => {
   return `
 以下のコンテンツが技術系かそれ以外かを判断してください。
-技術系には、プログラミング、ソフトウェア開発、IT業界、コンピュータサイエンス、
-ハードウェア、ネットワーク、セキュリティ、人工知能、データサイエンス、
-Webサービス、モバイルアプリ、クラウド技術などが含まれます。
+${TECH_CATEGORY_GUIDE}
 
 コンテンツ:
 """
@@ -69,9 +212,12 @@ export const classifyContent = async (
     // API呼び出しを実行（リトライ付き）
     return await retryAsync(
       async () => {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4",
-          messages: [
+        const { value: result, attempts } = await completeValidatedJson<
+          Omit<ClassificationResult, "category"> & {
+            category: ContentCategory;
+          }
+        >(
+          [
             {
               role: "system",
               content:
@@ -82,40 +228,32 @@ export const classifyContent = async (
               content: createClassificationPrompt(truncatedContent),
             },
           ],
-          temperature: 0.2, // 低い温度で一貫性を高める
-        });
-
-        const response = completion.choices[0].message.content;
-        if (!response) {
-          throw new Error("APIからの応答が空です");
-        }
-
-        // JSONレスポンスをパース
-        try {
-          // 応答テキストからJSON部分を抽出（余分なテキストがある場合に備える）
-          const jsonMatch = response.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error("JSON形式の応答が見つかりません");
+          {
+            stage: "classifier",
+            temperature: 0.2, // 低い温度で一貫性を高める
+            jsonSchema: classificationSchema,
           }
+        );
+        recordAttempts(attempts, Boolean(result));
 
-          const result = JSON.parse(jsonMatch[0]);
-          return {
-            category:
-              result.category === "TECH"
-                ? ContentCategory.TECH
-                : ContentCategory.OTHER,
-            confidence: parseFloat(result.confidence) || 0.5,
-            reasoning: result.reasoning,
-          };
-        } catch (parseError) {
-          // JSONパースに失敗した場合は、TECHという文字列が含まれているか確認
-          const isTech = response.includes("TECH");
+        if (!result) {
+          // 出力し直してもらっても形式に一致しない場合はデフォルト値を返す
+          logWarn("分類結果が形式に一致しないため、その他に分類します", {
+            ...metrics,
+          });
           return {
-            category: isTech ? ContentCategory.TECH : ContentCategory.OTHER,
-            confidence: 0.6,
-            reasoning: "レスポンスのパースに失敗しました: " + response,
+            category: ContentCategory.OTHER,
+            confidence: 0.5,
+            reasoning:
+              "分類結果が形式に一致しなかったため、その他に分類しました",
           };
         }
+
+        return {
+          category: result.category,
+          confidence: result.confidence,
+          reasoning: result.reasoning,
+        };
       },
       2, // 最大2回リトライ
       1000, // 1秒間隔
@@ -127,6 +265,7 @@ export const classifyContent = async (
       }
     );
   } catch (error) {
+    metrics.errorFallbacks++;
     logError("コンテンツの分類に失敗しました", {
       error: error instanceof Error ? error.message : String(error),
     });
@@ -170,24 +309,8 @@ ${content}
 以下のサブカテゴリから最も適切なものを1つ選んでください:
 ${categories}
 
-${
-  isTech
-    ? `
-PROGRAMMING_LANGUAGE: プログラミング言語に関する内容（JavaScript, Python, Rustなど）
-FRAMEWORK: フレームワークに関する内容（React, Vue, Laravel, Djangoなど）
-AI_ML: AI・機械学習に関する内容（ChatGPT, 機械学習モデル, LLMなど）
-TOOLS: 開発ツールに関する内容（Git, Docker, VSCode, CI/CDなど）
-WEB_DEV: Web開発全般に関する内容（HTML, CSS, フロントエンド, バックエンドなど）
-OTHER_TECH: その他の技術トピック（上記に当てはまらない技術的な内容）
-`
-    : `
-NEWS: ニュース・時事問題に関する内容
-ENTERTAINMENT: エンターテイメント（映画, 音楽, ゲームなど）に関する内容
-LIFESTYLE: ライフスタイル（健康, 食事, 仕事など）に関する内容
-HOBBY: 趣味（旅行, 読書, スポーツなど）に関する内容
-OTHER_GENERAL: その他の一般的な話題
-`
-}
+
+${isTech ? TECH_SUBCATEGORY_GUIDE : OTHER_SUBCATEGORY_GUIDE}
 
 回答形式: { "subCategory": "選択したサブカテゴリ", "confidence": 0-1の数値, "reasoning": "理由の説明" }
 `;
@@ -223,50 +346,36 @@ export const classifySubCategory = async (
     // API呼び出しを実行（リトライ付き）
     return await retryAsync(
       async () => {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4",
-          messages: [
-            {
-              role: "system",
-              content:
-                "あなたはテキスト分類AIです。コンテンツのサブカテゴリを判別します。",
-            },
+        const { value: result, attempts } =
+          await completeValidatedJson<SubCategoryClassificationResult>(
+            [
+              {
+                role: "system",
+                content:
+                  "あなたはテキスト分類AIです。コンテンツのサブカテゴリを判別します。",
+              },
+              {
+                role: "user",
+                content: createSubCategoryPrompt(
+                  truncatedContent,
+                  mainCategory
+                ),
+              },
+            ],
             {
-              role: "user",
-              content: createSubCategoryPrompt(truncatedContent, mainCategory),
-            },
-          ],
-          temperature: 0.2, // 低い温度で一貫性を高める
-        });
-
-        const response = completion.choices[0].message.content;
-        if (!response) {
-          throw new Error("APIからの応答が空です");
-        }
-
-        // JSONレスポンスをパース
-        try {
-          // 応答テキストからJSON部分を抽出
-          const jsonMatch = response.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error("JSON形式の応答が見つかりません");
-          }
-
-          const result = JSON.parse(jsonMatch[0]);
-          return {
-            subCategory: result.subCategory,
-            confidence: parseFloat(result.confidence) || 0.5,
-            reasoning: result.reasoning,
-          };
-        } catch (parseError) {
-          // JSONパースに失敗した場合はデフォルト値を返す
-          logError("サブカテゴリ分類結果のパースに失敗しました", {
-            error:
-              parseError instanceof Error
-                ? parseError.message
-                : String(parseError),
-            response,
-          });
+              stage: "classifier",
+              temperature: 0.2, // 低い温度で一貫性を高める
+              jsonSchema: createSubCategorySchema(mainCategory),
+            }
+          );
+        recordAttempts(attempts, Boolean(result));
+
+        if (!result) {
+          // 出力し直してもらっても形式に一致しない場合はデフォルト値を返す
+          logWarn(
+            "サブカテゴリの分類結果が形式に一致しないため、デフォルトのサブカテゴリを使用します",
+            { ...metrics }
+          );
 
           return {
             subCategory:
@@ -274,9 +383,15 @@ export const classifySubCategory = async (
                 ? TechSubCategory.OTHER_TECH
                 : OtherSubCategory.OTHER_GENERAL,
             confidence: 0.5,
-            reasoning: "レスポンスのパースに失敗しました",
+            reasoning: "分類結果が形式に一致しませんでした",
           };
         }
+
+        return {
+          subCategory: result.subCategory,
+          confidence: result.confidence,
+          reasoning: result.reasoning,
+        };
       },
       2, // 最大2回リトライ
       1000, // 1秒間隔
@@ -288,6 +403,7 @@ export const classifySubCategory = async (
       }
     );
   } catch (error) {
+    metrics.errorFallbacks++;
     logError("サブカテゴリの分類に失敗しました", {
       error: error instanceof Error ? error.message : String(error),
     });
@@ -304,6 +420,35 @@ export const classifySubCategory = async (
   }
 };
 
+/**
+ * ツイートとスクレイピング結果から分類対象のテキストを作る
+ * @param tweet ツイートデータ
+ * @param scrapedContent スクレイピング結果（任意）
+ * @returns 分類対象のテキスト
+ */
+const createTweetClassificationContent = (
+  tweet: TweetData,
+  scrapedContent?: ScrapedContent
+): string => {
+  // スレッドや引用ツイートを展開済みの場合はそちらを使う
+  const tweetContent = tweet.expandedContent || tweet.content;
+  if (!scrapedContent || !scrapedContent.content) {
+    return tweetContent;
+  }
+
+  // タイトルとコンテンツを組み合わせる（タイトルは重要な情報を含むことが多い）
+  const title = scrapedContent.title
+    ? `タイトル: ${scrapedContent.title}\n`
+    : "";
+  // スクレイピングした本文（長すぎる場合は先頭部分のみ）
+  const content =
+    scrapedContent.content.length > 1000
+      ? scrapedContent.content.substring(0, 1000) + "..."
+      : scrapedContent.content;
+
+  return `${tweetContent}\n\n${title}${content}`;
+};
+
 /**
  * ツイートとスクレイピング結果を組み合わせて分類
  * @param tweet ツイートデータ
@@ -314,24 +459,183 @@ export const classifyTweet = async (
   tweet: TweetData,
   scrapedContent?: ScrapedContent
 ): Promise<ClassificationResult> => {
-  let contentToClassify = tweet.content;
-
-  // スクレイピング結果がある場合は、それも考慮
-  if (scrapedContent && scrapedContent.content) {
-    // タイトルとコンテンツを組み合わせる（タイトルは重要な情報を含むことが多い）
-    const title = scrapedContent.title
-      ? `タイトル: ${scrapedContent.title}\n`
-      : "";
-    // スクレイピングした本文（長すぎる場合は先頭部分のみ）
-    const content =
-      scrapedContent.content.length > 1000
-        ? scrapedContent.content.substring(0, 1000) + "..."
-        : scrapedContent.content;
-
-    contentToClassify = `${tweet.content}\n\n${title}${content}`;
+  return await classifyContent(
+    createTweetClassificationContent(tweet, scrapedContent)
+  );
+};
+
+/**
+ * メインカテゴリとサブカテゴリをまとめて分類するプロンプトの共通部分
+ */
+const FULL_CLASSIFICATION_GUIDE = `
+コンテンツが技術系（TECH）かそれ以外（OTHER）かを判断し、さらに該当するサブカテゴリを1つ選んでください。
+${TECH_CATEGORY_GUIDE}
+
+技術系（TECH）のサブカテゴリ:
+${TECH_SUBCATEGORY_GUIDE}
+
+それ以外（OTHER）のサブカテゴリ:
+${OTHER_SUBCATEGORY_GUIDE}
+
+サブカテゴリは選んだカテゴリに属するものから選んでください。
+`;
+
+/**
+ * メインカテゴリとサブカテゴリをまとめて分類するプロンプト
+ */
+const createFullClassificationPrompt = (content: string): string => {
+  return `
+以下のコンテンツを分類してください。
+${FULL_CLASSIFICATION_GUIDE}
+コンテンツ:
+"""
+${content}
+"""
+
+回答形式: { "category": "TECH" or "OTHER", "subCategory": "選択したサブカテゴリ", "confidence": 0-1の数値, "reasoning": "理由の説明" }
+`;
+};
+
+/**
+ * 複数のコンテンツをまとめて分類するプロンプト
+ * @param contents 分類対象のテキスト（番号は1から）
+ */
+const createBatchClassificationPrompt = (contents: string[]): string => {
+  return `
+以下の${contents.length}件のコンテンツをそれぞれ分類してください。
+${FULL_CLASSIFICATION_GUIDE}
+${contents
+  .map(
+    (content, index) => `コンテンツ ${index + 1}:
+"""
+${content}
+"""`
+  )
+  .join("\n\n")}
+
+回答形式: { "results": [{ "id": コンテンツの番号, "category": "TECH" or "OTHER", "subCategory": "選択したサブカテゴリ", "confidence": 0-1の数値, "reasoning": "理由の説明" }] }
+すべてのコンテンツについて、番号順に1件ずつ回答してください。
+`;
+};
+
+/**
+ * 分類結果のメインカテゴリとサブカテゴリを揃える
+ * サブカテゴリがメインカテゴリに属さない場合は、より具体的なサブカテゴリの方に合わせる
+ * @param result 分類結果
+ */
+const toFullClassificationResult = (
+  result: FullClassificationResult
+): FullClassificationResult => {
+  const isTechSubCategory = (
+    Object.values(TechSubCategory) as string[]
+  ).includes(result.subCategory);
+  const category = isTechSubCategory
+    ? ContentCategory.TECH
+    : ContentCategory.OTHER;
+  if (category !== result.category) {
+    logWarn(
+      `分類結果のカテゴリ（${result.category}）とサブカテゴリ（${result.subCategory}）が一致しないため、サブカテゴリに合わせます`
+    );
   }
 
-  return await classifyContent(contentToClassify);
+  return {
+    category,
+    subCategory: result.subCategory,
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+  };
+};
+
+/**
+ * 分類できなかった場合のデフォルトの分類結果
+ * @param reasoning 理由
+ */
+const defaultFullClassification = (
+  reasoning: string
+): FullClassificationResult => ({
+  category: ContentCategory.OTHER,
+  subCategory: OtherSubCategory.OTHER_GENERAL,
+  confidence: 0.5,
+  reasoning,
+});
+
+/**
+ * テキストコンテンツのメインカテゴリとサブカテゴリを1回の呼び出しで分類する
+ * @param content 分類対象のテキスト
+ * @returns 完全な分類結果
+ */
+export const classifyFullContent = async (
+  content: string
+): Promise<FullClassificationResult> => {
+  try {
+    // コンテンツが空の場合はその他に分類
+    if (!content || content.trim().length === 0) {
+      return {
+        ...defaultFullClassification("コンテンツが空です"),
+        confidence: 1.0,
+      };
+    }
+
+    // コンテンツを適切な長さに切り詰める（APIの制限を考慮）
+    const truncatedContent =
+      content.length > 4000 ? content.substring(0, 4000) + "..." : content;
+
+    // API呼び出しを実行（リトライ付き）
+    return await retryAsync(
+      async () => {
+        const { value: result, attempts } =
+          await completeValidatedJson<FullClassificationResult>(
+            [
+              {
+                role: "system",
+                content:
+                  "あなたはテキスト分類AIです。コンテンツのカテゴリとサブカテゴリを判別します。",
+              },
+              {
+                role: "user",
+                content: createFullClassificationPrompt(truncatedContent),
+              },
+            ],
+            {
+              stage: "classifier",
+              temperature: 0.2, // 低い温度で一貫性を高める
+              jsonSchema: fullClassificationSchema,
+            }
+          );
+        recordAttempts(attempts, Boolean(result));
+
+        if (!result) {
+          // 出力し直してもらっても形式に一致しない場合はデフォルト値を返す
+          logWarn("分類結果が形式に一致しないため、その他に分類します", {
+            ...metrics,
+          });
+          return defaultFullClassification(
+            "分類結果が形式に一致しなかったため、その他に分類しました"
+          );
+        }
+
+        return toFullClassificationResult(result);
+      },
+      2, // 最大2回リトライ
+      1000, // 1秒間隔
+      (error, attempt) => {
+        logError(
+          `コンテンツ分類のAPI呼び出しに失敗しました (リトライ ${attempt}/2)`,
+          { error: error instanceof Error ? error.message : String(error) }
+        );
+      }
+    );
+  } catch (error) {
+    metrics.errorFallbacks++;
+    logError("コンテンツの分類に失敗しました", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    // エラー時はデフォルト値を返す
+    return defaultFullClassification(
+      "エラーが発生したため、デフォルトのカテゴリを使用します"
+    );
+  }
 };
 
 /**
@@ -344,42 +648,145 @@ export const classifyTweetWithSubCategory = async (
   tweet: TweetData,
   scrapedContent?: ScrapedContent
 ): Promise<FullClassificationResult> => {
-  // メインカテゴリの分類
-  const classificationResult = await classifyTweet(tweet, scrapedContent);
-
-  // コンテンツを準備
-  let contentToClassify = tweet.content;
-  if (scrapedContent && scrapedContent.content) {
-    const title = scrapedContent.title
-      ? `タイトル: ${scrapedContent.title}\n`
-      : "";
-    const content =
-      scrapedContent.content.length > 1000
-        ? scrapedContent.content.substring(0, 1000) + "..."
-        : scrapedContent.content;
-
-    contentToClassify = `${tweet.content}\n\n${title}${content}`;
+  const result = await classifyFullContent(
+    createTweetClassificationContent(tweet, scrapedContent)
+  );
+
+  logInfo(`コンテンツを分類しました: ${result.category}/${result.subCategory}`);
+
+  return result;
+};
+
+/**
+ * 複数のツイートを1回の呼び出しでまとめて分類する
+ * @param contents 分類対象のテキスト
+ * @returns 番号（1から）ごとの分類結果（応答に含まれなかったものは含まない）
+ */
+const classifyBatch = async (
+  contents: string[]
+): Promise<Map<number, FullClassificationResult>> => {
+  const results = new Map<number, FullClassificationResult>();
+
+  try {
+    // まとめて送るため、1件あたりは単独で分類する場合より短く切り詰める
+    const truncatedContents = contents.map((content) =>
+      content.length > 2000 ? content.substring(0, 2000) + "..." : content
+    );
+
+    const response = await retryAsync(
+      () =>
+        completeValidatedJson<{
+          results: (FullClassificationResult & { id: number })[];
+        }>(
+          [
+            {
+              role: "system",
+              content:
+                "あなたはテキスト分類AIです。複数のコンテンツのカテゴリとサブカテゴリをまとめて判別します。",
+            },
+            {
+              role: "user",
+              content: createBatchClassificationPrompt(truncatedContents),
+            },
+          ],
+          {
+            stage: "classifier",
+            temperature: 0.2, // 低い温度で一貫性を高める
+            jsonSchema: batchClassificationSchema,
+          }
+        ),
+      2, // 最大2回リトライ
+      1000, // 1秒間隔
+      (error, attempt) => {
+        logError(
+          `コンテンツの一括分類のAPI呼び出しに失敗しました (リトライ ${attempt}/2)`,
+          { error: error instanceof Error ? error.message : String(error) }
+        );
+      }
+    );
+    // 形式に一致しない場合は呼び出し元で1件ずつ分類し直すため、デフォルトの分類を使った回数には含めない
+    metrics.requests++;
+    if (response.value && response.attempts > 1) {
+      metrics.repaired++;
+    }
+
+    for (const { id, ...result } of response.value?.results || []) {
+      if (id >= 1 && id <= contents.length && !results.has(id)) {
+        results.set(id, toFullClassificationResult(result));
+      }
+    }
+  } catch (error) {
+    // 一括分類に失敗した場合は、呼び出し元で1件ずつ分類し直す
+    logError("コンテンツの一括分類に失敗しました", {
+      error: error instanceof Error ? error.message : String(error),
+    });
   }
 
-  // サブカテゴリの分類
-  const subCategoryResult = await classifySubCategory(
-    contentToClassify,
-    classificationResult.category
-  );
+  return results;
+};
 
-  logInfo(
-    `コンテンツを分類しました: ${classificationResult.category}/${subCategoryResult.subCategory}`
+/**
+ * 複数のツイートをまとめて分類（メインカテゴリとサブカテゴリ）
+ * LLM_CLASSIFICATION_BATCH_SIZE 件ずつ1回の呼び出しで分類し、応答に含まれなかったものは1件ずつ分類し直す
+ * @param items ツイートデータとスクレイピング結果
+ * @param batchSize 1回の呼び出しで分類する件数
+ * @returns 完全な分類結果（itemsと同じ順序）
+ */
+export const classifyTweetsWithSubCategory = async (
+  items: { tweet: TweetData; scrapedContent?: ScrapedContent }[],
+  batchSize: number = config.llm.classificationBatchSize
+): Promise<FullClassificationResult[]> => {
+  const contents = items.map(({ tweet, scrapedContent }) =>
+    createTweetClassificationContent(tweet, scrapedContent)
   );
+  const results: FullClassificationResult[] = [];
+
+  for (let i = 0; i < contents.length; i += Math.max(1, batchSize)) {
+    const batch = contents.slice(i, i + Math.max(1, batchSize));
+    // 1件だけの場合は単独で分類する
+    let batchResults = new Map<number, FullClassificationResult>();
+    if (batch.length > 1) {
+      logInfo(
+        `${batch.length}件のコンテンツをまとめて分類します (${i + 1}〜${
+          i + batch.length
+        }件目/${contents.length}件)`
+      );
+      batchResults = await classifyBatch(batch);
+    }
 
-  return {
-    category: classificationResult.category,
-    subCategory: subCategoryResult.subCategory,
-  };
+    for (const [index, content] of batch.entries()) {
+      let result = batchResults.get(index + 1);
+      if (!result) {
+        if (batch.length > 1) {
+          metrics.batchMisses++;
+        }
+        result = await classifyFullContent(content);
+      }
+      logInfo(
+        `コンテンツを分類しました: ${result.category}/${result.subCategory} (${
+          items[i + index].tweet.tweetLink
+        })`
+      );
+      results.push(result);
+    }
+  }
+
+  return results;
 };
 
+/**
+ * 分類の実行状況を取得
+ */
+export const getClassificationMetrics = (): ClassificationMetrics => ({
+  ...metrics,
+});
+
 export default {
   classifyContent,
   classifyTweet,
   classifySubCategory,
+  classifyFullContent,
   classifyTweetWithSubCategory,
+  classifyTweetsWithSubCategory,
+  getClassificationMetrics,
 };
@@ -0,0 +1,389 @@
+/**
+ * 本文抽出モジュール
+ * Mozilla Readability と同様に、段落のテキスト量とリンク密度から本文の要素を推定し、
+ * ナビゲーションやコメント、関連記事などを除いた本文を取り出す
+ */
+
+// 本文ではない可能性が高い要素のclass/id
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|share|recommend|ranking|newsletter|subscribe/i;
+
+// 本文である可能性が高い要素のclass/id（UNLIKELY_CANDIDATES より優先）
+const MAYBE_CANDIDATE =
+  /and|article|body|column|content|main|shadow|post|entry/i;
+
+// 加点するclass/id
+const POSITIVE =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+
+// 減点するclass/id
+const NEGATIVE =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget|recommend|ranking/i;
+
+// 抽出前に取り除く要素
+const REMOVE_SELECTORS =
+  "script, style, noscript, iframe, form, svg, canvas, nav, header, footer, aside, button, input, select, textarea, template";
+
+// 段落としてスコアを加算する要素
+const SCORE_SELECTORS = "p, pre, td, blockquote, section, h2, h3";
+
+// ブロック要素（前後で改行する）
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "blockquote",
+  "figure",
+  "figcaption",
+  "table",
+  "tr",
+  "dl",
+  "dt",
+  "dd",
+  "ul",
+  "ol",
+]);
+
+// 1文字を1語として数える文字（ひらがな・カタカナ・漢字・ハングル）
+const CJK_CHARS =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+
+// テキストに含めない要素
+const SKIP_TAGS = new Set(["script", "style", "noscript", "template", "svg"]);
+
+// スコアの最小段落文字数（これ未満の段落は数えない）
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// 本文とみなす最小文字数（これ未満の場合はページ全体の本文を使う）
+const MIN_CONTENT_LENGTH = 140;
+
+/**
+ * 本文抽出の結果
+ */
+export interface ExtractedContent {
+  content: string;
+  wordCount: number;
+}
+
+/**
+ * 空白を1つにまとめる
+ */
+const normalizeSpaces = (text: string): string => text.replace(/\s+/g, " ");
+
+/**
+ * 語数を数える
+ * 英数字は空白区切りの単語、日本語・中国語・韓国語は1文字を1語として数える
+ * @param text 対象のテキスト
+ * @returns 語数
+ */
+export const countWords = (text: string): number => {
+  const cjk = text.match(CJK_CHARS);
+  const words = text
+    .replace(CJK_CHARS, " ")
+    .match(/[A-Za-z0-9\u00c0-\u024f]+(?:['’.-][A-Za-z0-9\u00c0-\u024f]+)*/g);
+  return (cjk ? cjk.length : 0) + (words ? words.length : 0);
+};
+
+/**
+ * class名とidから要素の重みを求める
+ */
+const getClassWeight = ($el: any): number => {
+  let weight = 0;
+  for (const value of [$el.attr("class"), $el.attr("id")]) {
+    if (!value) continue;
+    if (NEGATIVE.test(value)) weight -= 25;
+    if (POSITIVE.test(value)) weight += 25;
+  }
+  return weight;
+};
+
+/**
+ * 要素の種類ごとの初期スコア
+ */
+const getTagScore = (tagName: string): number => {
+  switch (tagName) {
+    case "div":
+    case "article":
+    case "main":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * 要素のテキストのうちリンクのテキストが占める割合
+ */
+const getLinkDensity = ($: any, $el: any): number => {
+  const textLength = normalizeSpaces($el.text()).trim().length;
+  if (textLength === 0) {
+    return 0;
+  }
+  let linkLength = 0;
+  $el.find("a").each((_: number, a: any) => {
+    linkLength += normalizeSpaces($(a).text()).trim().length;
+  });
+  return linkLength / textLength;
+};
+
+/**
+ * 本文ではない可能性が高い要素を取り除く
+ */
+const removeUnlikelyCandidates = ($: any): void => {
+  $(REMOVE_SELECTORS).remove();
+  $("[class], [id]").each((_: number, el: any) => {
+    const $el = $(el);
+    const tagName = (el.tagName || "").toLowerCase();
+    if (tagName === "body" || tagName === "html" || tagName === "article") {
+      return;
+    }
+    const matchString = `${$el.attr("class") || ""} ${$el.attr("id") || ""}`;
+    if (
+      UNLIKELY_CANDIDATES.test(matchString) &&
+      !MAYBE_CANDIDATE.test(matchString)
+    ) {
+      $el.remove();
+    }
+  });
+  $('[hidden], [aria-hidden="true"], [style*="display:none"]').remove();
+};
+
+/**
+ * 段落のスコアを親要素と祖父要素に加算し、最もスコアの高い要素を本文として選ぶ
+ * @returns 本文の要素（見つからない場合はnull）
+ */
+const findTopCandidate = ($: any): any | null => {
+  const scores = new Map<any, number>();
+
+  const initialize = (el: any): void => {
+    if (!scores.has(el)) {
+      scores.set(
+        el,
+        getTagScore((el.tagName || "").toLowerCase()) + getClassWeight($(el))
+      );
+    }
+  };
+
+  $(SCORE_SELECTORS).each((_: number, el: any) => {
+    const text = normalizeSpaces($(el).text()).trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    // 句読点（カンマ・読点）の数と長さで段落のスコアを決める
+    const commas = (text.match(/[,、，]/g) || []).length;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = el.parent;
+    if (!parent || parent.type !== "tag") {
+      return;
+    }
+    initialize(parent);
+    scores.set(parent, (scores.get(parent) || 0) + score);
+
+    const grandparent = parent.parent;
+    if (grandparent && grandparent.type === "tag") {
+      initialize(grandparent);
+      scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+    }
+  });
+
+  // リンク密度の高い要素（リンク集など）は減点
+  let topCandidate: any = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const finalScore = score * (1 - getLinkDensity($, $(el)));
+    scores.set(el, finalScore);
+    if (finalScore > topScore) {
+      topScore = finalScore;
+      topCandidate = el;
+    }
+  }
+  if (!topCandidate) {
+    return null;
+  }
+
+  // 本文が兄弟要素に分かれている場合は、スコアの高い兄弟要素もまとめる
+  const threshold = Math.max(10, topScore * 0.2);
+  const parent = topCandidate.parent;
+  if (!parent || parent.type !== "tag") {
+    return $(topCandidate);
+  }
+  const siblings = $(parent)
+    .children()
+    .filter((_: number, sibling: any) => {
+      if (sibling === topCandidate) {
+        return true;
+      }
+      if ((scores.get(sibling) || 0) >= threshold) {
+        return true;
+      }
+      // 単独の長い段落もリンクが少なければ本文に含める
+      if ((sibling.tagName || "").toLowerCase() === "p") {
+        const text = normalizeSpaces($(sibling).text()).trim();
+        const linkDensity = getLinkDensity($, $(sibling));
+        return text.length > 80 && linkDensity < 0.25;
+      }
+      return false;
+    });
+  return siblings.length > 1 ? siblings : $(topCandidate);
+};
+
+/**
+ * 本文の中に残っているリンク集や広告などを取り除く
+ */
+const cleanConditionally = ($: any, $content: any): void => {
+  $content
+    .find("div, section, ul, ol, table, dl")
+    .each((_: number, el: any) => {
+      const $el = $(el);
+      if ($el.find("pre, code").length > 0) {
+        return;
+      }
+      const text = normalizeSpaces($el.text()).trim();
+      const linkDensity = getLinkDensity($, $el);
+      const weight = getClassWeight($el);
+      if (
+        weight < 0 ||
+        (linkDensity > 0.5 && weight < 25) ||
+        (linkDensity > 0.2 && text.length < MIN_PARAGRAPH_LENGTH)
+      ) {
+        $el.remove();
+      }
+    });
+};
+
+/**
+ * 要素をテキストに変換（段落の区切り、見出し、コードブロックを保持）
+ */
+const renderText = ($: any, nodes: any[]): string => {
+  let output = "";
+
+  const walk = (node: any): void => {
+    if (node.type === "text") {
+      output += normalizeSpaces(node.data || "");
+      return;
+    }
+    if (node.type !== "tag") {
+      return;
+    }
+
+    const tagName = (node.tagName || "").toLowerCase();
+    if (SKIP_TAGS.has(tagName)) {
+      return;
+    }
+    if (tagName === "br") {
+      output += "\n";
+      return;
+    }
+    if (tagName === "pre") {
+      output += `\n\n\`\`\`\n${$(node).text().replace(/\n+$/, "")}\n\`\`\`\n\n`;
+      return;
+    }
+    const heading = tagName.match(/^h([1-6])$/);
+    if (heading) {
+      const text = normalizeSpaces($(node).text()).trim();
+      if (text) {
+        output += `\n\n${"#".repeat(Number(heading[1]))} ${text}\n\n`;
+      }
+      return;
+    }
+    if (tagName === "li") {
+      output += "\n- ";
+      (node.children || []).forEach(walk);
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tagName);
+    if (isBlock) output += "\n\n";
+    (node.children || []).forEach(walk);
+    if (isBlock) output += "\n\n";
+  };
+
+  nodes.forEach(walk);
+
+  // コードブロック以外の行頭・行末の空白と連続する空行を整理
+  return output
+    .split(/(```\n[\s\S]*?\n```)/)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part
+            .split("\n")
+            .map((line) => line.trim())
+            .join("\n")
+            .replace(/\n{3,}/g, "\n\n")
+    )
+    .join("")
+    .trim();
+};
+
+/**
+ * 指定した要素をテキストに変換する（サイト別の抽出処理で使用）
+ * @param $ cheerioオブジェクト
+ * @param $el 変換する要素
+ * @returns 段落の区切り、見出し、コードブロックを保持したテキスト
+ */
+export const elementToText = ($: any, $el: any): string => {
+  return renderText($, $el.toArray());
+};
+
+/**
+ * HTMLから本文を抽出する
+ * @param $ cheerioオブジェクト（抽出の過程で不要な要素を削除する）
+ * @param title ページタイトル（本文が見つからない場合のフォールバック）
+ * @returns 本文と語数
+ */
+export const extractMainContent = ($: any, title: string): ExtractedContent => {
+  removeUnlikelyCandidates($);
+
+  let content = "";
+  const $candidate = findTopCandidate($);
+  if ($candidate) {
+    cleanConditionally($, $candidate);
+    content = renderText($, $candidate.toArray());
+  }
+
+  // 本文らしい要素が見つからない場合はページ全体の本文を使用
+  if (content.length < MIN_CONTENT_LENGTH) {
+    const bodyContent = renderText($, $("body").toArray());
+    if (bodyContent.length > content.length) {
+      content = bodyContent;
+    }
+  }
+
+  // 空の場合は仕方なくタイトルだけを使用
+  if (!content) {
+    content = title;
+  }
+
+  return { content, wordCount: countWords(content) };
+};
+
+export default {
+  extractMainContent,
+  elementToText,
+  countWords,
+};
@@ -2,27 +2,66 @@
  * 会話形式変換モジュール
  * 要約したコンテンツを自然な会話形式に変換
  */
-import OpenAI from "openai";
 import {
   ContentCategory,
   TechSubCategory,
   OtherSubCategory,
   SubCategoryNames,
+  SourcePlatform,
+  PlatformNames,
+  MediaType,
+  MediaTypeNames,
+  ScrapeFailureReasonNames,
 } from "../config/constants";
 import {
   SummarizedContent,
   ConversationalContent,
   GroupedContents,
 } from "../types";
-import { config } from "../config";
 import { logError, logInfo } from "../utils/logger";
 import { retryAsync } from "../utils/error-handler";
 import { formatDateTimeJP } from "../utils/date";
+import { getLlmProvider } from "./llm";
 
-// OpenAI APIクライアントの初期化
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+/**
+ * 投稿元の説明（誰がいつどこで投稿したか）を取得
+ * @param content 要約されたコンテンツ
+ * @returns 「@userさんが2025年3月17日22時35分にX（旧Twitter）で投稿」のような説明
+ */
+const describeOrigin = (content: SummarizedContent): string => {
+  const { account, tweetDate, platform } = content.original;
+  const date = formatDateTimeJP(tweetDate);
+  if (platform === SourcePlatform.MANUAL) {
+    return `@${account}さんが${date}に手動で追加`;
+  }
+  return `@${account}さんが${date}に${
+    PlatformNames[platform || SourcePlatform.TWITTER]
+  }で投稿`;
+};
+
+/**
+ * リンク先の種類の表示名を取得（記事の場合は空文字）
+ * @param content 要約されたコンテンツ
+ * @returns 「動画」「ポッドキャスト」などの表示名
+ */
+const getMediaTypeName = (content: SummarizedContent): string => {
+  return content.mediaType && content.mediaType !== MediaType.ARTICLE
+    ? MediaTypeNames[content.mediaType]
+    : "";
+};
+
+/**
+ * リンク先を取得できなかった理由の補足（取得できた場合は空文字）
+ * @param content 要約されたコンテンツ
+ * @returns 「リンク先は有料会員限定の記事のため、本文は読めていません」のような補足
+ */
+const describeFailure = (content: SummarizedContent): string => {
+  return content.failureReason
+    ? `リンク先は${
+        ScrapeFailureReasonNames[content.failureReason]
+      }のため、本文は読めていません`
+    : "";
+};
 
 /**
  * 会話形式変換のプロンプト
@@ -32,10 +71,12 @@ const createConversationPrompt = (
   includeTweetInfo: boolean = true
 ): string => {
   const isTech = content.category === ContentCategory.TECH;
+  const mediaTypeName = getMediaTypeName(content);
+  const failure = describeFailure(content);
   const tweetInfo = includeTweetInfo
-    ? `元ツイート: @${content.original.account}さんが ${formatDateTimeJP(
-        content.original.tweetDate
-      )} に投稿\nリンク: ${content.original.tweetLink}`
+    ? `元ツイート: ${describeOrigin(content)}\nリンク: ${
+        content.original.tweetLink
+      }`
     : "";
 
   return `
@@ -53,6 +94,16 @@ ${
     ? "これは技術系の内容です。専門用語があれば簡単な説明を加え、技術的な内容をわかりやすく解説してください。"
     : "一般向けの内容です。簡潔でわかりやすい説明を心がけてください。"
 }
+${
+  mediaTypeName
+    ? `紹介するのは${mediaTypeName}です。「この記事では」ではなく「この${mediaTypeName}では」のように紹介してください。`
+    : ""
+}
+${
+  failure
+    ? `${failure}。投稿の内容をもとに紹介し、記事の中身を推測で補わないでください。有料記事やログインが必要なページであれば、そのことに軽く触れてください。`
+    : ""
+}
 
 ${tweetInfo}
 
@@ -79,9 +130,8 @@ export const convertToConversation = async (
     // API呼び出しを実行（リトライ付き）
     return await retryAsync(
       async () => {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4",
-          messages: [
+        return await getLlmProvider().chat(
+          [
             {
               role: "system",
               content:
@@ -92,15 +142,11 @@ export const convertToConversation = async (
               content: createConversationPrompt(content),
             },
           ],
-          temperature: 0.7, // 少し創造性を持たせる
-        });
-
-        const response = completion.choices[0].message.content;
-        if (!response) {
-          throw new Error("APIからの応答が空です");
-        }
-
-        return response.trim();
+          {
+            stage: "converter",
+            temperature: 0.7, // 少し創造性を持たせる
+          }
+        );
       },
       2, // 最大2回リトライ
       1000, // 1秒間隔
@@ -398,7 +444,7 @@ async function generateCombinedSection(
     );
 
     try {
-      // OpenAI APIを呼び出してコンテンツをまとめる
+      // LLMを呼び出してコンテンツをまとめる
       const result = await processContentChunk(chunk, categoryName, i === 0);
       results.push(result);
     } catch (error) {
@@ -433,7 +479,7 @@ function splitContentsIntoChunks(
 }
 
 /**
- * コンテンツのチャンクをOpenAI APIで処理
+ * コンテンツのチャンクをLLMで処理
  * @param contents 処理するコンテンツのチャンク
  * @param categoryName カテゴリ名
  * @param isFirstChunk 最初のチャンクかどうか（挨拶を含めるかの判断に使用）
@@ -447,10 +493,12 @@ async function processContentChunk(
   // サマリーの配列を作成
   const summaries = contents
     .map((content, index) => {
-      const account = content.original.account;
-      const date = formatDateTimeJP(content.original.tweetDate);
-      return `【${index + 1}】@${account}さんが${date}に投稿したコンテンツ:
-${content.summary}
+      const mediaTypeName = getMediaTypeName(content);
+      const failure = describeFailure(content);
+      return `【${index + 1}】${describeOrigin(content)}したコンテンツ${
+        mediaTypeName ? `（${mediaTypeName}）` : ""
+      }:
+${content.summary}${failure ? `\n（${failure}）` : ""}
 リンク: ${content.original.tweetLink}
 ${
   content.original.contentLink
@@ -479,6 +527,9 @@ ${summaries}
 6. 「次のツイート」「別のツイート」といった表現は避けてください
 7. 「最後に」「以上の」「今日は」「今回はここまで」などの、チャンクの中で最初と最後を意識させるような言葉は絶対に使わないでください
 8. 個人名や企業名、サービス名を明確に言及し、具体的な情報を提供してください
+9. X（旧Twitter）以外のプラットフォーム（Mastodon、Bluesky、ブログなど）の投稿は、どこで見つけた話題なのかを自然に触れてください
+10. 動画やポッドキャストのコンテンツは「この記事では」ではなく「この動画では」「このエピソードでは」のように紹介してください
+11. 本文を読めていないコンテンツは投稿の内容をもとに紹介し、記事の中身を推測で補わないでください。有料記事やログインが必要なページであれば、そのことに軽く触れてください
 
 返答はシンプルなナレーション形式で、まとまりのある内容にしてください。
 「ホスト：」などの表記や、読み上げない指示などは一切含めないでください。
@@ -488,9 +539,8 @@ ${summaries}
   // APIリクエスト実行
   return await retryAsync(
     async () => {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
+      return await getLlmProvider().chat(
+        [
           {
             role: "system",
             content:
@@ -501,15 +551,8 @@ ${summaries}
             content: prompt,
           },
         ],
-        temperature: 0.7,
-      });
-
-      const response = completion.choices[0].message.content;
-      if (!response) {
-        throw new Error("APIからの応答が空です");
-      }
-
-      return response.trim();
+        { stage: "converter", temperature: 0.7 }
+      );
     },
     2,
     1000,
@@ -587,9 +630,8 @@ ${otherContentsText}
     `;
 
     // APIリクエスト実行
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
+    const response = await getLlmProvider().chat(
+      [
         {
           role: "system",
           content:
@@ -600,15 +642,10 @@ ${otherContentsText}
           content: prompt,
         },
       ],
-      temperature: 0.7,
-    });
-
-    const response = completion.choices[0].message.content;
-    if (!response) {
-      throw new Error("APIからの応答が空です");
-    }
+      { stage: "converter", temperature: 0.7 }
+    );
 
-    return `\n\n${response.trim()}\n\n`;
+    return `\n\n${response}\n\n`;
   } catch (error) {
     logError("統計情報のまとめ生成に失敗しました", {
       error: error instanceof Error ? error.message : String(error),
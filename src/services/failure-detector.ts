@@ -0,0 +1,212 @@
+/**
+ * 取得失敗の検出モジュール
+ * 有料記事、ログインが必要なページ、CAPTCHAやCloudflareのチャレンジページ、存在しないページ、
+ * タイムアウトを検出し、スクレイピングに失敗した理由として返す
+ */
+import axios from "axios";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import {
+  FAILURE_DETECTION,
+  SCRAPER_SETTINGS,
+  ScrapeFailureReason,
+  ScrapeFailureReasonNames,
+} from "../config/constants";
+import { ScrapedContent } from "../types";
+
+/**
+ * テキストにいずれかの文言が含まれるかどうか（大文字小文字を区別しない）
+ */
+const includesAny = (text: string, patterns: string[]): boolean => {
+  const lowerText = text.toLowerCase();
+  return patterns.some((pattern) => lowerText.includes(pattern));
+};
+
+/**
+ * いずれかの要素がページに存在するかどうか
+ */
+const hasAny = ($: any, selectors: string[]): boolean => {
+  return selectors.some((selector) => $(selector).length > 0);
+};
+
+/**
+ * JSON-LDで無料で読めない記事（isAccessibleForFree: false）とされているかどうか
+ * @param $ cheerioオブジェクト
+ */
+const isMarkedAsPaid = ($: any): boolean => {
+  let paid = false;
+  $('script[type="application/ld+json"]').each((_: number, el: any) => {
+    try {
+      const json = JSON.parse($(el).html() || "");
+      const items: any[] = Array.isArray(json)
+        ? json
+        : json["@graph"] || [json];
+      paid =
+        paid ||
+        items.some(
+          (item) =>
+            item && String(item.isAccessibleForFree).toLowerCase() === "false"
+        );
+    } catch {
+      // 壊れたJSON-LDは無視する
+    }
+  });
+  return paid;
+};
+
+/**
+ * URLがログインページのものかどうか
+ * @param url 対象のURL
+ */
+export const isLoginUrl = (url: string): boolean => {
+  let pathname = "";
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // URLとして解釈できない場合はログインページとみなさない
+    return false;
+  }
+  return FAILURE_DETECTION.LOGIN_URL_PATTERNS.some((pattern) =>
+    pattern.test(pathname)
+  );
+};
+
+/**
+ * ページの内容から取得に失敗した理由を検出する
+ * 本文が短いページほど、ログインやCAPTCHAの文言・要素を失敗の根拠とみなす
+ * @param $ cheerioオブジェクト
+ * @param url ページのURL
+ * @param content 抽出した本文
+ * @param options.siteExtracted サイト別の抽出処理で本文を得たページの場合はtrue（タイトルで存在しないページと判定しない）
+ * @returns 失敗の理由（問題がない場合はnull）
+ */
+export const detectPageFailure = (
+  $: any,
+  url: string,
+  content: string,
+  options: { siteExtracted?: boolean } = {}
+): ScrapeFailureReason | null => {
+  const title = $("title").text().trim().toLowerCase();
+  const isShort = content.trim().length < SCRAPER_SETTINGS.MIN_CONTENT_LENGTH;
+  const isBrief =
+    content.trim().length < SCRAPER_SETTINGS.NOSCRIPT_MAX_CONTENT_LENGTH;
+
+  // CloudflareなどのチャレンジページとCAPTCHA
+  if (
+    FAILURE_DETECTION.BOT_CHALLENGE_TITLES.includes(title) ||
+    hasAny($, FAILURE_DETECTION.BOT_CHALLENGE_SELECTORS) ||
+    (isShort && hasAny($, FAILURE_DETECTION.CAPTCHA_SELECTORS))
+  ) {
+    return ScrapeFailureReason.BOT_CHALLENGE;
+  }
+
+  // ステータスコード200で返される「ページが見つかりません」
+  if (
+    !options.siteExtracted &&
+    isBrief &&
+    FAILURE_DETECTION.NOT_FOUND_TITLES.some((pattern) => pattern.test(title))
+  ) {
+    return ScrapeFailureReason.NOT_FOUND;
+  }
+
+  // ログインページ、またはログインフォームだけのページ
+  // （URLがログインページのものでも、本文が十分にあれば記事として扱う）
+  if (
+    (isBrief && isLoginUrl(url)) ||
+    (isShort &&
+      ($('input[type="password"]').length > 0 ||
+        includesAny($("body").text(), FAILURE_DETECTION.LOGIN_PATTERNS)))
+  ) {
+    return ScrapeFailureReason.LOGIN_REQUIRED;
+  }
+
+  // 有料記事（冒頭だけが読める場合も含む）
+  // 文言は関連記事の「有料会員限定」の表示などにも含まれるため、本文が短い場合のみ判定に使う
+  if (
+    isMarkedAsPaid($) ||
+    hasAny($, FAILURE_DETECTION.PAYWALL_SELECTORS) ||
+    (isBrief &&
+      includesAny($("body").text(), FAILURE_DETECTION.PAYWALL_PATTERNS))
+  ) {
+    return ScrapeFailureReason.PAYWALL;
+  }
+
+  return null;
+};
+
+/**
+ * 取得時のエラーから失敗の理由を判定する
+ * @param error HTTP（axios）またはPuppeteerのエラー
+ * @returns 失敗の理由（判定できない場合はnull）
+ */
+export const detectFetchFailure = (
+  error: unknown
+): ScrapeFailureReason | null => {
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return ScrapeFailureReason.TIMEOUT;
+    }
+
+    const status = error.response?.status;
+    switch (status) {
+      case 401:
+        return ScrapeFailureReason.LOGIN_REQUIRED;
+      case 402:
+        return ScrapeFailureReason.PAYWALL;
+      case 404:
+      case 410:
+        return ScrapeFailureReason.NOT_FOUND;
+      case 403:
+      case 429:
+      case 503: {
+        // Cloudflareなどはチャレンジページをエラーのステータスコードで返す
+        const body = error.response?.data
+          ? Buffer.from(error.response.data).toString("utf-8")
+          : "";
+        return detectPageFailure(cheerio.load(body), "", "") ===
+          ScrapeFailureReason.BOT_CHALLENGE
+          ? ScrapeFailureReason.BOT_CHALLENGE
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return ScrapeFailureReason.TIMEOUT;
+  }
+  return null;
+};
+
+/**
+ * 失敗の理由を説明するエラーメッセージ
+ * @param reason 失敗の理由
+ */
+export const describeFailure = (reason: ScrapeFailureReason): string => {
+  return `${ScrapeFailureReasonNames[reason]}のため本文を取得できませんでした`;
+};
+
+/**
+ * 取得に失敗した結果を作成
+ * @param url ページのURL
+ * @param reason 失敗の理由
+ * @returns コンテンツ情報（本文は空）
+ */
+export const toFailedContent = (
+  url: string,
+  reason: ScrapeFailureReason
+): ScrapedContent => ({
+  url,
+  content: "",
+  error: describeFailure(reason),
+  failureReason: reason,
+});
+
+export default {
+  isLoginUrl,
+  detectPageFailure,
+  detectFetchFailure,
+  describeFailure,
+  toFailedContent,
+};
@@ -0,0 +1,190 @@
+/**
+ * フィード取り込みモジュール
+ * RSS 2.0 / Atom フィードの記事をツイートと同様に扱えるデータに変換
+ */
+import fs from "fs";
+import axios from "axios";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import { logError, logInfo } from "../utils/logger";
+import { retryAsync } from "../utils/error-handler";
+import { DateRange, TweetData, TweetSource } from "../types";
+import { SourcePlatform } from "../config/constants";
+import { filterByDateRange, saveImportedTweets } from "./tweet-importer";
+
+/**
+ * HTML断片からテキストのみを取り出す
+ * @param html HTML文字列
+ * @returns テキスト
+ */
+const stripHtml = (html: string): string => {
+  if (!html) {
+    return "";
+  }
+  return cheerio.load(html).root().text().trim().replace(/\s+/g, " ");
+};
+
+/**
+ * フィードのXMLを取得（URLまたはファイルパス）
+ * @param input フィードのURLまたはファイルパス
+ * @returns XML文字列
+ */
+const readFeed = async (input: string): Promise<string> => {
+  if (!input.startsWith("http")) {
+    if (!fs.existsSync(input)) {
+      throw new Error(`フィードファイルが見つかりません: ${input}`);
+    }
+    return fs.readFileSync(input, "utf-8");
+  }
+
+  const response = await retryAsync(
+    () => axios.get<string>(input, { responseType: "text", timeout: 30000 }),
+    2,
+    1000,
+    (error, attempt) => {
+      logError(`フィードの取得に失敗しました (リトライ ${attempt}/2)`, {
+        url: input,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  );
+  return response.data;
+};
+
+/**
+ * RSS 2.0 / Atom のXMLをパースしてTweetDataに変換
+ * @param xml フィードのXML
+ * @returns ツイートデータの配列（日付やリンクのない項目は除外）
+ */
+export const parseFeed = (xml: string): TweetData[] => {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const items: TweetData[] = [];
+
+  // RSS 2.0
+  const rssTitle = $("channel > title").first().text().trim();
+  $("channel > item").each((_: number, el: any) => {
+    const item = $(el);
+    const link =
+      item.children("link").first().text().trim() ||
+      item.children("guid").first().text().trim();
+    const title = item.children("title").first().text().trim();
+    const description = stripHtml(
+      item.children("content\\:encoded").first().text() ||
+        item.children("description").first().text()
+    );
+    const date = new Date(
+      item.children("pubDate").first().text().trim() ||
+        item.children("dc\\:date").first().text().trim()
+    );
+
+    items.push({
+      tweetDate: date,
+      account: rssTitle,
+      tweetLink: link,
+      contentLink: link,
+      content: [title, description].filter(Boolean).join("\n\n"),
+      platform: SourcePlatform.RSS,
+    });
+  });
+
+  // Atom
+  const atomTitle = $("feed > title").first().text().trim();
+  $("feed > entry").each((_: number, el: any) => {
+    const entry = $(el);
+    const linkEl =
+      entry.children('link[rel="alternate"]').first().length > 0
+        ? entry.children('link[rel="alternate"]').first()
+        : entry.children("link:not([rel])").first();
+    const link = linkEl.attr("href") || entry.children("id").first().text();
+    const title = stripHtml(entry.children("title").first().text());
+    const description = stripHtml(
+      entry.children("summary").first().text() ||
+        entry.children("content").first().text()
+    );
+    const date = new Date(
+      entry.children("published").first().text().trim() ||
+        entry.children("updated").first().text().trim()
+    );
+
+    items.push({
+      tweetDate: date,
+      account: atomTitle,
+      tweetLink: link.trim(),
+      contentLink: link.trim(),
+      content: [title, description].filter(Boolean).join("\n\n"),
+      platform: SourcePlatform.RSS,
+    });
+  });
+
+  return items.filter(
+    (item) => item.tweetLink && !isNaN(item.tweetDate.getTime())
+  );
+};
+
+/**
+ * 複数のフィードを読み込む
+ * @param inputs フィードのURLまたはファイルパスの配列
+ * @returns 記事のデータ（取得に失敗したフィードは除外）
+ */
+export const loadFeeds = async (inputs: string[]): Promise<TweetData[]> => {
+  const items: TweetData[] = [];
+
+  for (const input of inputs) {
+    try {
+      const feedItems = parseFeed(await readFeed(input));
+      logInfo(
+        `フィードから${feedItems.length}件の記事を取得しました: ${input}`
+      );
+      items.push(...feedItems);
+    } catch (error) {
+      logError(`フィードの解析に失敗しました: ${input}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return items;
+};
+
+/**
+ * フィードの記事をデータベースに取り込む
+ * @param inputs フィードのURLまたはファイルパスの配列
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだ記事のデータ
+ */
+export const importFeeds = async (
+  inputs: string[],
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  return saveImportedTweets(await loadFeeds(inputs), dateRange);
+};
+
+/**
+ * RSS/Atomフィードを取得元とするTweetSource
+ */
+export const feedTweetSource: TweetSource = {
+  name: "feed",
+  description:
+    "RSS 2.0 / Atom フィード（--input にURLまたはファイルパス、カンマ区切りで複数可）",
+  fetchTweets: async (range, options) => {
+    if (!options?.input) {
+      throw new Error(
+        "--input にフィードのURLまたはファイルパスを指定してください"
+      );
+    }
+    const inputs = Array.isArray(options.input)
+      ? options.input
+      : String(options.input).split(",");
+    return filterByDateRange(
+      await loadFeeds(inputs.map((input: string) => input.trim())),
+      range
+    );
+  },
+};
+
+export default {
+  parseFeed,
+  loadFeeds,
+  importFeeds,
+  feedTweetSource,
+};
@@ -0,0 +1,187 @@
+/**
+ * ファイル取り込みモジュール
+ * ローカルのCSV/TSV/JSONLファイルからツイートデータを取得
+ */
+import fs from "fs";
+import path from "path";
+import { logInfo, logWarn } from "../utils/logger";
+import { parseCsvRows } from "../utils/csv";
+import { SHEET_SETTINGS } from "../config/constants";
+import {
+  ColumnMapping,
+  parseColumnMapping,
+  resolveColumns,
+  rowToTweetData,
+} from "../utils/column-mapping";
+import { DateRange, TweetData, TweetSource } from "../types";
+import { filterByDateRange, saveImportedTweets } from "./tweet-importer";
+
+/**
+ * ファイル読み込みのオプション
+ */
+export interface FileSourceOptions {
+  columns?: ColumnMapping;
+  hasHeader?: boolean;
+}
+
+/**
+ * ファイルを表形式（ヘッダーと行）に変換
+ * JSONLの場合は全レコードのキーをヘッダーとして扱う
+ * @param inputPath ファイルのパス
+ * @param hasHeader CSV/TSVの1行目がヘッダーかどうか
+ * @returns ヘッダーと行（行ごとにファイル内の行番号を持つ）
+ */
+const readTable = (
+  inputPath: string,
+  hasHeader: boolean
+): { header?: string[]; rows: string[][]; lineNumbers: number[] } => {
+  const text = fs.readFileSync(inputPath, "utf-8");
+  const ext = path.extname(inputPath).toLowerCase();
+
+  if (ext === ".jsonl" || ext === ".ndjson") {
+    // 解釈できない行は読み飛ばす（CSVの不正な行と同じ扱い）
+    const records: Record<string, unknown>[] = [];
+    const lineNumbers: number[] = [];
+    // BOMを除去
+    const input = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+    input.split(/\r?\n/).forEach((line, lineIndex) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const record = JSON.parse(line);
+        if (!record || typeof record !== "object" || Array.isArray(record)) {
+          throw new Error("JSONオブジェクトではありません");
+        }
+        records.push(record);
+        lineNumbers.push(lineIndex + 1);
+      } catch (error) {
+        logWarn(
+          `${inputPath} の${lineIndex + 1}行目を解析できないためスキップします`,
+          {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        );
+      }
+    });
+
+    const header = [...new Set(records.flatMap((r) => Object.keys(r)))];
+    const rows = records.map((record) =>
+      header.map((key) =>
+        record[key] === undefined || record[key] === null
+          ? ""
+          : String(record[key])
+      )
+    );
+    return { header, rows, lineNumbers };
+  }
+
+  const csvRows = parseCsvRows(text, ext === ".tsv" ? "\t" : ",");
+  const dataRows = hasHeader ? csvRows.slice(1) : csvRows;
+  return {
+    header: hasHeader && csvRows.length > 0 ? csvRows[0].cells : undefined,
+    rows: dataRows.map((row) => row.cells),
+    lineNumbers: dataRows.map((row) => row.line),
+  };
+};
+
+/**
+ * ファイルからツイートデータを読み込む
+ * @param inputPath ファイルのパス（.csv / .tsv / .jsonl）
+ * @param options 列マッピングとヘッダー有無
+ * @returns ツイートデータの配列
+ */
+export const loadTweetsFromFile = (
+  inputPath: string,
+  options: FileSourceOptions = {}
+): TweetData[] => {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`ファイルが見つかりません: ${inputPath}`);
+  }
+
+  const { header, rows, lineNumbers } = readTable(
+    inputPath,
+    options.hasHeader ?? true
+  );
+  const columns = resolveColumns(
+    options.columns || {},
+    header,
+    SHEET_SETTINGS.HEADER_ALIASES
+  );
+  if (columns.tweetDate === undefined) {
+    throw new Error(
+      "日付の列が見つかりません。--columns=tweetDate=<列名> で指定してください"
+    );
+  }
+
+  const tweets: TweetData[] = [];
+  // 変換できない行は読み飛ばす
+  rows.forEach((row, index) => {
+    try {
+      tweets.push(rowToTweetData(row, columns));
+    } catch (error) {
+      logWarn(
+        `${inputPath} の${lineNumbers[index]}行目を解析できないためスキップします`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+          row,
+        }
+      );
+    }
+  });
+
+  logInfo(
+    `${inputPath} から${tweets.length}件のツイートデータを読み込みました`
+  );
+  return tweets;
+};
+
+/**
+ * ファイルのツイートをデータベースに取り込む
+ * @param inputPath ファイルのパス
+ * @param options 列マッピングとヘッダー有無
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだツイートデータ
+ */
+export const importTweetsFromFile = async (
+  inputPath: string,
+  options: FileSourceOptions = {},
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  return saveImportedTweets(loadTweetsFromFile(inputPath, options), dateRange);
+};
+
+/**
+ * CLI引数をファイル読み込みのオプションに変換
+ * @param args CLI引数（columns, header）
+ */
+export const toFileSourceOptions = (
+  args: Record<string, any>
+): FileSourceOptions => ({
+  columns: parseColumnMapping(args.columns),
+  hasHeader: args.header ?? true,
+});
+
+/**
+ * ローカルファイルを取得元とするTweetSource
+ */
+export const fileTweetSource: TweetSource = {
+  name: "file",
+  description:
+    "CSV/TSV/JSONLファイル（--input にパス、--columns に列マッピング）",
+  fetchTweets: async (range, options) => {
+    if (!options?.input) {
+      throw new Error("--input にファイルのパスを指定してください");
+    }
+    return filterByDateRange(
+      loadTweetsFromFile(options.input, toFileSourceOptions(options)),
+      range
+    );
+  },
+};
+
+export default {
+  loadTweetsFromFile,
+  importTweetsFromFile,
+  fileTweetSource,
+};
@@ -0,0 +1,301 @@
+/**
+ * LLMプロバイダモジュール
+ * 分類・要約・会話形式変換で使うLLMの呼び出しをまとめ、
+ * OpenAI、OpenAI互換のローカルサーバー（Ollama、llama.cppなど）、テスト用の固定応答を切り替える
+ */
+import OpenAI from "openai";
+import { config } from "../config";
+import { LlmProviderType } from "../config/constants";
+import { logWarn } from "../utils/logger";
+import { JsonSchema, validateJsonSchema } from "../utils/json-schema";
+
+/**
+ * LLMを使う処理（処理ごとにモデルを設定できる）
+ */
+export type LlmStage = keyof typeof config.llm.models;
+
+/**
+ * チャットのメッセージ
+ */
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * 応答のJSONのスキーマ
+ */
+export interface LlmJsonSchema {
+  name: string; // スキーマ名（英数字とアンダースコア）
+  schema: JsonSchema;
+}
+
+/**
+ * LLMの呼び出しオプション
+ */
+export interface LlmRequestOptions {
+  stage: LlmStage;
+  temperature?: number;
+  // 応答のJSONのスキーマ（構造化出力に対応したモデルではAPIに渡す）
+  jsonSchema?: LlmJsonSchema;
+}
+
+/**
+ * JSONでの応答
+ */
+export interface LlmJsonResult<T> {
+  json: T | null; // 応答から取り出したJSON（JSONとして解釈できない場合はnull）
+  text: string; // 応答のテキスト
+}
+
+/**
+ * スキーマで検証したJSONでの応答
+ */
+export interface LlmValidatedJsonResult<T> {
+  value: T | null; // スキーマに一致したJSON（修正を依頼しても一致しなかった場合はnull）
+  text: string; // 最後の応答のテキスト
+  errors: string[]; // 最後の応答の検証エラー
+  attempts: number; // 応答を生成した回数
+}
+
+/**
+ * LLMプロバイダ
+ */
+export interface LlmProvider {
+  name: string;
+  /**
+   * チャット形式で応答を生成する
+   * @returns 応答のテキスト（前後の空白は除く）
+   */
+  chat: (messages: LlmMessage[], options: LlmRequestOptions) => Promise<string>;
+  /**
+   * JSONでの応答を生成する
+   * @returns 応答から取り出したJSONと応答のテキスト
+   */
+  completeJson: <T = unknown>(
+    messages: LlmMessage[],
+    options: LlmRequestOptions
+  ) => Promise<LlmJsonResult<T>>;
+}
+
+/**
+ * テスト用プロバイダの応答を作る関数
+ */
+export type FakeResponder = (
+  messages: LlmMessage[],
+  options: LlmRequestOptions
+) => string;
+
+/**
+ * 応答のテキストからJSONを取り出す（前後に説明文やコードブロックの記号がある場合に備える）
+ * @param text 応答のテキスト
+ * @returns JSON（見つからない、または解釈できない場合はnull）
+ */
+export const parseJsonResponse = <T = unknown>(text: string): T | null => {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * チャットの応答からJSONでの応答を作るプロバイダを組み立てる
+ */
+const toProvider = (name: string, chat: LlmProvider["chat"]): LlmProvider => ({
+  name,
+  chat,
+  completeJson: async <T>(
+    messages: LlmMessage[],
+    options: LlmRequestOptions
+  ): Promise<LlmJsonResult<T>> => {
+    const text = await chat(messages, options);
+    return { json: parseJsonResponse<T>(text), text };
+  },
+});
+
+/**
+ * OpenAIのChat Completions APIを使うプロバイダを作成
+ * baseURL を指定するとOpenAI互換のサーバーを使う
+ * @param options APIキーと接続先
+ */
+export const createOpenAiProvider = (options: {
+  apiKey: string;
+  baseURL?: string;
+  name?: string;
+}): LlmProvider => {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL || undefined,
+  });
+
+  return toProvider(
+    options.name || LlmProviderType.OPENAI,
+    async (messages, { stage, temperature, jsonSchema }) => {
+      const completion = await client.chat.completions.create({
+        model: config.llm.models[stage],
+        messages,
+        temperature,
+        // 構造化出力に対応していないモデル（gpt-4など）もあるため、設定で有効にした場合のみ渡す
+        response_format:
+          jsonSchema && config.llm.structuredOutputs
+            ? {
+                type: "json_schema",
+                json_schema: {
+                  name: jsonSchema.name,
+                  schema: jsonSchema.schema as Record<string, unknown>,
+                  strict: true,
+                },
+              }
+            : undefined,
+      });
+
+      const response = completion.choices[0]?.message.content;
+      if (!response) {
+        throw new Error("APIからの応答が空です");
+      }
+      return response.trim();
+    }
+  );
+};
+
+/**
+ * 決まった応答を返すプロバイダを作成（テストやAPIキーなしでの動作確認用）
+ * 応答を作る関数を省略した場合は、処理名と最後のメッセージの先頭部分を返す
+ * @param responder 応答を作る関数
+ */
+export const createFakeProvider = (responder?: FakeResponder): LlmProvider => {
+  const respond: FakeResponder =
+    responder ||
+    ((messages, { stage }) => {
+      const last = messages[messages.length - 1]?.content || "";
+      return `[${stage}] ${last.trim().substring(0, 200)}`;
+    });
+
+  return toProvider(LlmProviderType.FAKE, async (messages, options) =>
+    respond(messages, options).trim()
+  );
+};
+
+/**
+ * 設定に従ってプロバイダを作成
+ */
+const createProvider = (): LlmProvider => {
+  switch (config.llm.provider) {
+    case LlmProviderType.OPENAI_COMPATIBLE:
+      if (!config.llm.baseUrl) {
+        throw new Error(
+          "環境変数 LLM_BASE_URL が設定されていません。OpenAI互換サーバーのURLを指定してください。"
+        );
+      }
+      return createOpenAiProvider({
+        // OpenAIのクライアントはAPIキーを必須とするため、不要なサーバーにはダミーの値を渡す
+        apiKey: config.llm.apiKey || "not-needed",
+        baseURL: config.llm.baseUrl,
+        name: LlmProviderType.OPENAI_COMPATIBLE,
+      });
+    case LlmProviderType.FAKE:
+      return createFakeProvider();
+    case LlmProviderType.OPENAI:
+    default:
+      return createOpenAiProvider({
+        apiKey: config.openai.apiKey,
+        baseURL: config.llm.baseUrl,
+      });
+  }
+};
+
+let provider: LlmProvider | null = null;
+
+/**
+ * 使用するプロバイダを取得（初回呼び出し時に設定から作成する）
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+};
+
+/**
+ * 使用するプロバイダを差し替える（テスト用、nullで設定から作り直す）
+ * @param newProvider プロバイダ
+ */
+export const setLlmProvider = (newProvider: LlmProvider | null): void => {
+  provider = newProvider;
+};
+
+/**
+ * 応答の修正を依頼するプロンプト
+ * @param errors 検証エラー
+ * @param schema 応答のJSONのスキーマ
+ */
+const createRepairPrompt = (errors: string[], schema: JsonSchema): string => {
+  return `
+直前の応答は指定の形式に一致しませんでした。
+
+問題点:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+以下のJSON Schemaに一致するJSONのみを、説明文やコードブロックの記号を付けずに出力し直してください。
+${JSON.stringify(schema)}
+`;
+};
+
+/**
+ * JSONでの応答を生成し、スキーマで検証する
+ * JSONとして解釈できない場合やスキーマに一致しない場合は、問題点を伝えて出力し直してもらう
+ * @param messages メッセージ
+ * @param options 呼び出しオプション（jsonSchema は必須）
+ * @returns 検証したJSONと最後の応答
+ */
+export const completeValidatedJson = async <T>(
+  messages: LlmMessage[],
+  options: LlmRequestOptions & { jsonSchema: LlmJsonSchema }
+): Promise<LlmValidatedJsonResult<T>> => {
+  const { name, schema } = options.jsonSchema;
+  const maxAttempts = 1 + Math.max(0, config.llm.jsonRepairAttempts);
+  let conversation = messages;
+  let text = "";
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await getLlmProvider().completeJson<T>(
+      conversation,
+      options
+    );
+    text = result.text;
+    errors =
+      result.json === null
+        ? ["応答をJSONとして解釈できません"]
+        : validateJsonSchema(result.json, schema);
+    if (errors.length === 0) {
+      return { value: result.json, text, errors, attempts: attempt };
+    }
+
+    logWarn(
+      `LLMの応答がスキーマ「${name}」に一致しません (${attempt}/${maxAttempts}回目)`,
+      { errors, response: text.substring(0, 500) }
+    );
+    conversation = [
+      ...messages,
+      { role: "assistant", content: text },
+      { role: "user", content: createRepairPrompt(errors, schema) },
+    ];
+  }
+
+  return { value: null, text, errors, attempts: maxAttempts };
+};
+
+export default {
+  parseJsonResponse,
+  createOpenAiProvider,
+  createFakeProvider,
+  getLlmProvider,
+  setLlmProvider,
+  completeValidatedJson,
+};
@@ -0,0 +1,99 @@
+/**
+ * 手動追加モジュール
+ * ツイートされていない記事を次回のエピソードの処理対象に追加する
+ */
+import os from "os";
+import { config } from "../config";
+import { SourcePlatform } from "../config/constants";
+import { logInfo, logWarn } from "../utils/logger";
+import { TweetData } from "../types";
+import { findTweetByLink, saveTweet, toTweetData } from "../db";
+
+/**
+ * 手動追加する記事の情報
+ */
+export interface ManualItemInput {
+  url: string;
+  note?: string;
+  account?: string;
+}
+
+/**
+ * 記事のURLを検証して正規化
+ * @param url 記事のURL
+ * @returns 正規化したURL
+ */
+const normalizeItemUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`URLの形式が正しくありません: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`http(s)のURLを指定してください: ${url}`);
+  }
+  return parsed.toString();
+};
+
+/**
+ * 追加した記事のアカウント名の既定値（MANUAL_ITEM_ACCOUNT、なければOSのユーザー名）
+ * コンテナなどでユーザー情報を取得できない環境では "manual" とする
+ */
+const defaultAccount = (): string => {
+  if (config.manualItem.account) {
+    return config.manualItem.account;
+  }
+  try {
+    return os.userInfo().username || "manual";
+  } catch {
+    return "manual";
+  }
+};
+
+/**
+ * 記事を手動で処理対象に追加
+ * ツイートの代わりにURLを tweetLink / contentLink として保存し、
+ * メモは本文として要約・分類に使われる（同じURLが登録済みの場合は何も変更しない）
+ * @param input 追加する記事の情報
+ * @returns 保存したツイートデータ
+ */
+export const addManualItem = async (
+  input: ManualItemInput
+): Promise<TweetData> => {
+  const url = normalizeItemUrl(input.url);
+
+  // 同じURLが既に登録されている場合（お気に入りのツイートなど）は本文を上書きしない
+  const existing = await findTweetByLink(url);
+  if (existing) {
+    logWarn(
+      existing.processed
+        ? `この記事は既にエピソードに含まれています（再度含める場合は process-all --reprocess を使用）: ${url}`
+        : `この記事は既に次回のエピソードの処理対象です: ${url}`
+    );
+    if (input.note) {
+      logWarn("登録済みの記事のため、メモは保存しませんでした", {
+        note: input.note,
+      });
+    }
+    return toTweetData(existing);
+  }
+
+  const tweet: TweetData = {
+    tweetDate: new Date(),
+    account: input.account || defaultAccount(),
+    tweetLink: url,
+    contentLink: url,
+    content: input.note || "",
+    platform: SourcePlatform.MANUAL,
+  };
+
+  const saved = await saveTweet({ ...tweet, category: "" });
+  logInfo(`次回のエピソードの処理対象に追加しました: ${url}`);
+
+  return { ...tweet, id: saved.id };
+};
+
+export default {
+  addManualItem,
+};
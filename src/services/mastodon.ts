@@ -0,0 +1,230 @@
+/**
+ * Mastodonエクスポート取り込みモジュール
+ * アカウントエクスポートの outbox.json（投稿・ブースト）と likes.json（お気に入り）を読み込む
+ */
+import fs from "fs";
+import path from "path";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import { logError, logInfo, logWarn } from "../utils/logger";
+import { getField, getString, isRecord } from "../utils/json-value";
+import { SourcePlatform } from "../config/constants";
+import { DateRange, TweetData, TweetSource } from "../types";
+import { filterByDateRange, saveImportedTweets } from "./tweet-importer";
+
+// エクスポートディレクトリ内の取り込み対象ファイル
+const EXPORT_FILES = ["outbox.json", "likes.json"];
+
+// MastodonがSnowflake形式のIDを使い始めた時期（これより前の日時になるIDは連番とみなす）
+const MASTODON_SNOWFLAKE_SINCE_MS = Date.UTC(2017, 0, 1);
+
+/**
+ * 投稿URLから「ユーザー名@ホスト」形式のアカウント名を取得
+ * 例: https://mastodon.social/@alice/123 → alice@mastodon.social
+ *     https://mastodon.social/users/alice → alice@mastodon.social
+ * @param url 投稿またはアクターのURL
+ * @returns アカウント名（判別できない場合は "unknown"）
+ */
+export const getAccountFromUrl = (url: string): string => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const match = pathname.match(/^\/(?:@|users\/)([^/]+)/);
+    return match ? `${match[1]}@${hostname}` : "unknown";
+  } catch {
+    return "unknown";
+  }
+};
+
+/**
+ * 投稿本文のHTMLからテキストと最初の外部リンクを取り出す
+ * @param html 投稿本文のHTML
+ * @returns テキストとリンク先URL
+ */
+const parseStatusContent = (
+  html: string
+): { text: string; link: string | null } => {
+  const $ = cheerio.load(html || "");
+  // メンションとハッシュタグのリンクは除外
+  const link =
+    $("a[href]")
+      .filter(
+        (_: number, el: any) =>
+          !$(el).hasClass("mention") && !$(el).hasClass("hashtag")
+      )
+      .first()
+      .attr("href") || null;
+
+  // 段落と改行を保持してテキスト化
+  $("br").replaceWith("\n");
+  $("p").after("\n\n");
+  const text = $.root().text().trim();
+
+  return { text, link };
+};
+
+/**
+ * 投稿URLの末尾のIDから投稿日時を算出
+ * MastodonのID（v2.0以降）は上位ビットがミリ秒単位の投稿日時になっている
+ * @param url 投稿URL
+ * @returns 投稿日時（IDから算出できない場合はnull）
+ */
+export const getStatusDateFromUrl = (url: string): Date | null => {
+  const match = url.match(/\/(\d{15,})\/?$/);
+  if (!match) {
+    return null;
+  }
+  const timestamp = Number(BigInt(match[1]) >> BigInt(16));
+  if (timestamp < MASTODON_SNOWFLAKE_SINCE_MS || timestamp > Date.now()) {
+    return null;
+  }
+  return new Date(timestamp);
+};
+
+/**
+ * ActivityStreamsのアクティビティをTweetDataに変換
+ * @param item outbox.json の orderedItems の要素
+ * @returns ツイートデータ（対象外のアクティビティ、リンクのない投稿はnull）
+ */
+const activityToTweetData = (item: unknown): TweetData | null => {
+  const type = getString(item, "type");
+  const published = getString(item, "published") || "";
+
+  // ブースト（objectはURLのみ）
+  const boosted = getString(item, "object");
+  if (type === "Announce" && boosted) {
+    return {
+      tweetDate: new Date(published),
+      account: getAccountFromUrl(boosted),
+      tweetLink: boosted,
+      contentLink: boosted,
+      content: "",
+      platform: SourcePlatform.MASTODON,
+    };
+  }
+
+  // 自分の投稿
+  const status = getField(item, "object");
+  if (type === "Create" && getString(status, "type") === "Note") {
+    const tweetLink = getString(status, "url") || getString(status, "id");
+    if (!tweetLink) {
+      logWarn("投稿のURLがないためスキップします", {
+        published,
+      });
+      return null;
+    }
+
+    const { text, link } = parseStatusContent(
+      getString(status, "content") || ""
+    );
+    return {
+      tweetDate: new Date(getString(status, "published") || published),
+      account: getAccountFromUrl(
+        getString(status, "attributedTo") || tweetLink
+      ),
+      tweetLink,
+      contentLink: link,
+      content: text,
+      platform: SourcePlatform.MASTODON,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * エクスポートファイル1件を読み込む
+ * likes.json は投稿URLのみで、お気に入りに登録した日時を含まないため、
+ * 日時は投稿URLのIDから算出した投稿日時にする（算出できない場合はファイルの更新日時（エクスポート日時））
+ * @param filePath outbox.json または likes.json のパス
+ * @returns ツイートデータの配列
+ */
+const loadExportFile = (filePath: string): TweetData[] => {
+  const json: unknown = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const items = getField(json, "orderedItems");
+  const exportedAt = fs.statSync(filePath).mtime;
+
+  return (Array.isArray(items) ? items : [])
+    .map((item): TweetData | null => {
+      if (typeof item === "string") {
+        return {
+          tweetDate: getStatusDateFromUrl(item) || exportedAt,
+          account: getAccountFromUrl(item),
+          tweetLink: item,
+          contentLink: item,
+          content: "",
+          platform: SourcePlatform.MASTODON,
+        };
+      }
+      return isRecord(item) ? activityToTweetData(item) : null;
+    })
+    .filter(
+      (tweet): tweet is TweetData =>
+        tweet !== null && !isNaN(tweet.tweetDate.getTime())
+    );
+};
+
+/**
+ * Mastodonのエクスポートを読み込む
+ * @param inputPath outbox.json / likes.json のパス、またはそれらを含むディレクトリ
+ * @returns ツイートデータの配列
+ */
+export const loadMastodonExport = (inputPath: string): TweetData[] => {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`エクスポートが見つかりません: ${inputPath}`);
+  }
+
+  const files = fs.statSync(inputPath).isDirectory()
+    ? EXPORT_FILES.map((file) => path.join(inputPath, file)).filter((file) =>
+        fs.existsSync(file)
+      )
+    : [inputPath];
+
+  const tweets: TweetData[] = [];
+  for (const file of files) {
+    try {
+      const loaded = loadExportFile(file);
+      logInfo(`${file} から${loaded.length}件の投稿を読み込みました`);
+      tweets.push(...loaded);
+    } catch (error) {
+      logError(`Mastodonエクスポートの解析に失敗しました: ${file}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return tweets;
+};
+
+/**
+ * Mastodonのエクスポートをデータベースに取り込む
+ * @param inputPath エクスポートのパス
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだツイートデータ
+ */
+export const importMastodonExport = async (
+  inputPath: string,
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  return saveImportedTweets(loadMastodonExport(inputPath), dateRange);
+};
+
+/**
+ * Mastodonのエクスポートを取得元とするTweetSource
+ */
+export const mastodonTweetSource: TweetSource = {
+  name: "mastodon",
+  description:
+    "Mastodonのエクスポート（--input に outbox.json / likes.json またはディレクトリ）",
+  fetchTweets: async (range, options) => {
+    if (!options?.input) {
+      throw new Error("--input にエクスポートのパスを指定してください");
+    }
+    return filterByDateRange(loadMastodonExport(options.input), range);
+  },
+};
+
+export default {
+  loadMastodonExport,
+  importMastodonExport,
+  mastodonTweetSource,
+};
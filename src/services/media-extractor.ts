@@ -0,0 +1,419 @@
+/**
+ * 動画・ポッドキャスト抽出モジュール
+ * YouTubeの視聴ページから動画の情報と字幕を、ポッドキャストのエピソードページから説明文を取り出す
+ */
+import axios from "axios";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import {
+  MEDIA_SETTINGS,
+  MediaType,
+  SCRAPER_SETTINGS,
+} from "../config/constants";
+import { config } from "../config";
+import { logInfo, logWarn } from "../utils/logger";
+import { getArray, getField, getString, isRecord } from "../utils/json-value";
+import { ScrapedContent } from "../types";
+import { countWords } from "./content-extractor";
+import { isAllowedByRobots, withHostLimit } from "./politeness";
+
+/**
+ * YouTubeの字幕トラック
+ */
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string; // 自動生成の字幕は "asr"
+}
+
+/**
+ * YouTubeの視聴ページから取り出した動画の情報
+ */
+export interface YouTubeVideo {
+  videoId: string;
+  title: string;
+  channel: string;
+  description: string;
+  publishDate: string;
+  keywords: string[];
+  lengthSeconds: number;
+  captionTracks: CaptionTrack[];
+}
+
+/**
+ * YouTubeの動画IDを取得
+ * youtube.com/watch?v=、youtu.be/、youtube.com/shorts/、youtube.com/live/ に対応
+ * @param url 対象のURL
+ * @returns 動画ID（YouTubeの動画でない場合はnull）
+ */
+export const getYouTubeVideoId = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^(www|m|music)\./, "");
+  if (host === "youtu.be") {
+    return parsed.pathname.slice(1).split("/")[0] || null;
+  }
+  if (host !== "youtube.com" && host !== "youtube-nocookie.com") {
+    return null;
+  }
+  if (parsed.pathname === "/watch") {
+    return parsed.searchParams.get("v");
+  }
+  const match = parsed.pathname.match(/^\/(?:shorts|live|embed)\/([^/?]+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * HTML内の「変数名 = {...};」形式のJSONを取り出す
+ * @param html ページのHTML
+ * @param name 変数名
+ * @returns パースした値（見つからない場合はnull）
+ */
+const extractJsonVariable = (html: string, name: string): unknown => {
+  const start = html.search(new RegExp(`${name}\\s*=\\s*\\{`));
+  if (start < 0) {
+    return null;
+  }
+
+  // 文字列中の括弧を無視しながら対応する閉じ括弧を探す
+  const begin = html.indexOf("{", start);
+  let depth = 0;
+  let inString = false;
+  for (let i = begin; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(html.slice(begin, i + 1));
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * YouTubeの視聴ページのHTMLから動画の情報を取り出す
+ * @param html 視聴ページのHTML
+ * @returns 動画の情報（取り出せない場合はnull）
+ */
+export const parseYouTubeWatchPage = (html: string): YouTubeVideo | null => {
+  const player = extractJsonVariable(html, "ytInitialPlayerResponse");
+  const details = getField(player, "videoDetails");
+  const videoId = getString(details, "videoId");
+  if (!videoId) {
+    return null;
+  }
+
+  const microformat = getField(
+    player,
+    "microformat",
+    "playerMicroformatRenderer"
+  );
+  const tracks = getArray(
+    player,
+    "captions",
+    "playerCaptionsTracklistRenderer",
+    "captionTracks"
+  );
+
+  return {
+    videoId,
+    title: getString(details, "title") || "",
+    channel:
+      getString(details, "author") ||
+      getString(microformat, "ownerChannelName") ||
+      "",
+    description:
+      getString(details, "shortDescription") ||
+      getString(microformat, "description", "simpleText") ||
+      "",
+    publishDate:
+      getString(microformat, "publishDate") ||
+      getString(microformat, "uploadDate") ||
+      "",
+    keywords: getArray(details, "keywords").filter(
+      (keyword): keyword is string => typeof keyword === "string"
+    ),
+    lengthSeconds: Number(getField(details, "lengthSeconds")) || 0,
+    captionTracks: tracks.flatMap((track): CaptionTrack[] => {
+      const baseUrl = getString(track, "baseUrl");
+      return baseUrl
+        ? [
+            {
+              baseUrl,
+              languageCode: getString(track, "languageCode") || "",
+              kind: getString(track, "kind"),
+            },
+          ]
+        : [];
+    }),
+  };
+};
+
+/**
+ * 優先する字幕トラックを選ぶ
+ * 優先言語の順に、手動作成の字幕、自動生成の字幕の順で探す
+ * @param tracks 字幕トラック
+ * @returns 選んだ字幕トラック（ない場合はundefined）
+ */
+export const selectCaptionTrack = (
+  tracks: CaptionTrack[]
+): CaptionTrack | undefined => {
+  for (const language of MEDIA_SETTINGS.CAPTION_LANGUAGES) {
+    const candidates = tracks.filter((track) =>
+      track.languageCode.startsWith(language)
+    );
+    const track =
+      candidates.find((candidate) => candidate.kind !== "asr") || candidates[0];
+    if (track) {
+      return track;
+    }
+  }
+  return tracks.find((track) => track.kind !== "asr") || tracks[0];
+};
+
+/**
+ * 字幕のXML（timedtext形式）をテキストに変換
+ * @param xml 字幕のXML
+ * @returns 字幕のテキスト
+ */
+export const parseCaptionXml = (xml: string): string => {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const lines = $("text, p")
+    .map((_: number, el: any) => $(el).text().replace(/\s+/g, " ").trim())
+    .get()
+    .filter(Boolean);
+
+  // 字幕内の文字参照（&amp;#39; など二重にエスケープされたもの）を戻す
+  return cheerio
+    .load(`<div>${lines.join("\n")}</div>`)("div")
+    .text()
+    .trim();
+};
+
+/**
+ * 字幕を取得
+ * robots.txtで禁止されている場合は取得しない
+ * @param track 字幕トラック
+ * @returns 字幕のテキスト（取得できない場合は空文字）
+ */
+const fetchCaption = async (track: CaptionTrack): Promise<string> => {
+  try {
+    if (!(await isAllowedByRobots(track.baseUrl))) {
+      logInfo("robots.txtで禁止されているため字幕を取得しません", {
+        language: track.languageCode,
+      });
+      return "";
+    }
+    const response = await withHostLimit(track.baseUrl, () =>
+      axios.get<string>(track.baseUrl, {
+        responseType: "text",
+        timeout: SCRAPER_SETTINGS.HTTP_TIMEOUT_MS,
+        headers: { "User-Agent": config.scraper.httpUserAgent },
+      })
+    );
+    return parseCaptionXml(response.data || "");
+  } catch (error) {
+    logWarn("字幕の取得に失敗しました", {
+      language: track.languageCode,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return "";
+  }
+};
+
+/**
+ * YouTubeの視聴ページを取得
+ * @param watchUrl 視聴ページのURL
+ * @returns 視聴ページのHTML
+ */
+const fetchWatchPage = async (watchUrl: string): Promise<string> => {
+  if (!(await isAllowedByRobots(watchUrl))) {
+    throw new Error(`robots.txtで禁止されています: ${watchUrl}`);
+  }
+  const response = await withHostLimit(watchUrl, () =>
+    axios.get<string>(watchUrl, {
+      responseType: "text",
+      timeout: SCRAPER_SETTINGS.HTTP_TIMEOUT_MS,
+      headers: {
+        "User-Agent": config.scraper.httpUserAgent,
+        "Accept-Language": "ja,en;q=0.8",
+      },
+    })
+  );
+  return response.data;
+};
+
+/**
+ * YouTubeの動画の情報と字幕を取得
+ * 字幕が取得できない場合は概要欄のみを本文とする
+ * @param url 動画のURL
+ * @param prefetched URL解決時に取得済みのレスポンス（同じ動画の視聴ページであれば取得し直さない）
+ * @returns コンテンツ情報
+ */
+export const fetchYouTubeVideo = async (
+  url: string,
+  prefetched?: { url: string; data: Buffer }
+): Promise<ScrapedContent> => {
+  const videoId = getYouTubeVideoId(url);
+  const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+
+  const prefetchedVideo =
+    prefetched && getYouTubeVideoId(prefetched.url) === videoId
+      ? parseYouTubeWatchPage(prefetched.data.toString("utf-8"))
+      : null;
+  if (!prefetchedVideo) {
+    logInfo(`YouTubeの動画情報を取得します: ${watchUrl}`);
+  }
+  const video =
+    prefetchedVideo || parseYouTubeWatchPage(await fetchWatchPage(watchUrl));
+  if (!video) {
+    throw new Error("動画の情報を取得できませんでした");
+  }
+
+  const track = selectCaptionTrack(video.captionTracks);
+  const transcript = track ? await fetchCaption(track) : "";
+  logInfo(
+    `YouTubeの動画情報を取得しました: ${video.title}（字幕: ${
+      transcript ? `${track?.languageCode} ${transcript.length}文字` : "なし"
+    }）`
+  );
+
+  const sections = [
+    video.description ? `# 概要欄\n\n${video.description}` : "",
+    transcript ? `# 字幕\n\n${transcript}` : "",
+  ].filter(Boolean);
+  const content = sections.join("\n\n") || video.title;
+
+  return {
+    url,
+    title: video.title,
+    content,
+    wordCount: countWords(content),
+    siteName: "YouTube",
+    publishDate: video.publishDate,
+    authors: video.channel ? [video.channel] : undefined,
+    tags: video.keywords.length > 0 ? video.keywords : undefined,
+    mediaType: MediaType.VIDEO,
+  };
+};
+
+/**
+ * JSON-LDからポッドキャストのエピソード情報を探す
+ * @param $ cheerioオブジェクト
+ * @returns PodcastEpisode のJSON-LD（ない場合はnull）
+ */
+const findPodcastEpisodeJsonLd = ($: any): Record<string, unknown> | null => {
+  let episode: Record<string, unknown> | null = null;
+  $('script[type="application/ld+json"]').each((_: number, el: any) => {
+    try {
+      const json: unknown = JSON.parse($(el).html() || "");
+      const graph = getField(json, "@graph");
+      const items = Array.isArray(json)
+        ? json
+        : Array.isArray(graph)
+        ? graph
+        : [json];
+      episode =
+        episode ||
+        items
+          .filter(isRecord)
+          .find((item) => item["@type"] === "PodcastEpisode") ||
+        null;
+    } catch {
+      // 壊れたJSON-LDは無視する
+    }
+  });
+  return episode;
+};
+
+/**
+ * ポッドキャストのエピソードページかどうかを判定する
+ * @param $ cheerioオブジェクト
+ * @param url ページのURL
+ */
+const isPodcastEpisodePage = ($: any, url: string): boolean => {
+  if (
+    MEDIA_SETTINGS.PODCAST_URL_PATTERNS.some((pattern) => pattern.test(url))
+  ) {
+    return true;
+  }
+  return findPodcastEpisodeJsonLd($) !== null;
+};
+
+/**
+ * ポッドキャストのエピソードページから番組名と説明文を取り出す
+ * 音声の文字起こしは行わず、エピソードの説明文（ショーノート）を本文とする
+ * @param $ cheerioオブジェクト
+ * @param url ページのURL
+ * @returns コンテンツ情報（エピソードページでない場合はnull）
+ */
+export const extractPodcastEpisode = (
+  $: any,
+  url: string
+): ScrapedContent | null => {
+  if (!isPodcastEpisodePage($, url)) {
+    return null;
+  }
+
+  const episode = findPodcastEpisodeJsonLd($) || {};
+  const meta = (key: string): string =>
+    (
+      $(`meta[property="${key}"]`).attr("content") ||
+      $(`meta[name="${key}"]`).attr("content") ||
+      ""
+    ).trim();
+
+  const title = (getString(episode, "name") || meta("og:title")).trim();
+  const description = (
+    getString(episode, "description") ||
+    meta("og:description") ||
+    meta("description")
+  ).trim();
+  if (!description) {
+    return null;
+  }
+
+  const show =
+    getString(episode, "partOfSeries", "name") || meta("og:site_name");
+  return {
+    url,
+    title,
+    content: description,
+    wordCount: countWords(description),
+    siteName: show || undefined,
+    publishDate: getString(episode, "datePublished") || "",
+    authors: show ? [show] : undefined,
+    mediaType: MediaType.PODCAST,
+  };
+};
+
+export default {
+  getYouTubeVideoId,
+  parseYouTubeWatchPage,
+  selectCaptionTrack,
+  parseCaptionXml,
+  fetchYouTubeVideo,
+  extractPodcastEpisode,
+};
@@ -0,0 +1,201 @@
+/**
+ * メタデータ抽出モジュール
+ * JSON-LD（Article、NewsArticle、SoftwareSourceCode、VideoObjectなど）、OpenGraph、Twitterカード、
+ * 一般的なmetaタグから著者、説明文、公開日・更新日、言語、画像、キーワードを取り出す
+ */
+
+/**
+ * ページのメタデータ
+ */
+export interface PageMetadata {
+  title?: string;
+  siteName?: string;
+  description?: string;
+  authors?: string[];
+  publishDate?: string;
+  modifiedDate?: string;
+  language?: string;
+  imageUrl?: string;
+  keywords?: string[];
+}
+
+// メタデータを読み取るJSON-LDの型（先にあるものを優先する）
+const JSON_LD_TYPES = [
+  "NewsArticle",
+  "Article",
+  "BlogPosting",
+  "TechArticle",
+  "ScholarlyArticle",
+  "Report",
+  "SoftwareSourceCode",
+  "VideoObject",
+];
+
+/**
+ * JSON-LDの値を文字列の配列にする（文字列、配列、{ name } 形式のオブジェクトに対応）
+ */
+const toStrings = (value: any): string[] => {
+  if (!value) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(toStrings);
+  }
+  if (typeof value === "object") {
+    return toStrings(value.name || value["@value"]);
+  }
+  return [String(value).trim()].filter(Boolean);
+};
+
+/**
+ * 重複と空文字を除いた配列（要素がない場合はundefined）
+ */
+const unique = (values: string[]): string[] | undefined => {
+  const result = [...new Set(values.map((value) => value.trim()))].filter(
+    Boolean
+  );
+  return result.length > 0 ? result : undefined;
+};
+
+/**
+ * カンマ区切りのキーワードを配列にする
+ */
+const splitKeywords = (value: any): string[] => {
+  return toStrings(value).flatMap((keyword) => keyword.split(/[,、]/));
+};
+
+/**
+ * JSON-LDのノードを平坦な配列にする（@graph や配列に対応）
+ */
+const flattenJsonLd = (json: any): any[] => {
+  if (!json || typeof json !== "object") {
+    return [];
+  }
+  if (Array.isArray(json)) {
+    return json.flatMap(flattenJsonLd);
+  }
+  return json["@graph"] ? flattenJsonLd(json["@graph"]) : [json];
+};
+
+/**
+ * ページ内のJSON-LDから、メタデータを読み取る対象のノードを探す
+ * @param $ cheerioオブジェクト
+ * @returns 対象の型のノード（ない場合はnull）
+ */
+const findJsonLdNode = ($: any): any | null => {
+  const nodes: any[] = [];
+  $('script[type="application/ld+json"]').each((_: number, el: any) => {
+    try {
+      nodes.push(...flattenJsonLd(JSON.parse($(el).html() || "")));
+    } catch {
+      // 壊れたJSON-LDは無視する
+    }
+  });
+
+  const typeIndex = (node: any): number => {
+    const types = toStrings(node["@type"]);
+    const indexes = types
+      .map((type) => JSON_LD_TYPES.indexOf(type))
+      .filter((index) => index >= 0);
+    return indexes.length > 0 ? Math.min(...indexes) : -1;
+  };
+
+  const candidates = nodes
+    .filter((node) => typeIndex(node) >= 0)
+    .sort((a, b) => typeIndex(a) - typeIndex(b));
+  return candidates[0] || null;
+};
+
+/**
+ * 相対URLを絶対URLにする
+ */
+const toAbsoluteUrl = (value: string, baseUrl: string): string => {
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * ページのメタデータを取り出す
+ * JSON-LD、OpenGraph、Twitterカード、一般的なmetaタグの順に優先する（サイト名のみOpenGraphを優先）
+ * @param $ cheerioオブジェクト
+ * @param url ページのURL（画像の相対URLの解決に使用）
+ * @returns メタデータ（見つからない項目はundefined）
+ */
+export const extractMetadata = ($: any, url: string): PageMetadata => {
+  const meta = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      const value = (
+        $(`meta[property="${key}"]`).attr("content") ||
+        $(`meta[name="${key}"]`).attr("content") ||
+        ""
+      ).trim();
+      if (value) {
+        return value;
+      }
+    }
+    return undefined;
+  };
+  const metaAll = (key: string): string[] =>
+    $(`meta[property="${key}"], meta[name="${key}"]`)
+      .map((_: number, el: any) => String($(el).attr("content") || ""))
+      .get();
+
+  const node = findJsonLdNode($) || {};
+  const first = (value: any): string | undefined => toStrings(value)[0];
+  // article:author にはプロフィールのURLが入っていることがあるため除く
+  const isName = (author: string): boolean => !/^https?:\/\//.test(author);
+  const jsonLdAuthors = toStrings(node.author || node.creator).filter(isName);
+
+  const imageNode = Array.isArray(node.image) ? node.image[0] : node.image;
+  const image = first(imageNode?.url || imageNode || node.thumbnailUrl);
+  const imageUrl =
+    image || meta("og:image", "twitter:image", "twitter:image:src");
+
+  return {
+    title:
+      first(node.headline || node.name) || meta("og:title", "twitter:title"),
+    // サイト名はOpenGraphの方が発行元の正式名称より番組で読み上げやすい
+    siteName:
+      meta("og:site_name") || first(node.publisher) || meta("application-name"),
+    description:
+      first(node.description) ||
+      meta("og:description", "twitter:description", "description"),
+    authors: unique(
+      jsonLdAuthors.length > 0
+        ? jsonLdAuthors
+        : [...metaAll("article:author"), ...metaAll("author")].filter(isName)
+    ),
+    publishDate:
+      first(node.datePublished || node.uploadDate || node.dateCreated) ||
+      meta(
+        "article:published_time",
+        "pubdate",
+        "publishdate",
+        "date",
+        "dc.date",
+        "citation_publication_date"
+      ),
+    modifiedDate:
+      first(node.dateModified) ||
+      meta("article:modified_time", "og:updated_time", "last-modified"),
+    language:
+      first(node.inLanguage) ||
+      ($("html").attr("lang") || "").trim() ||
+      meta("og:locale")?.replace("_", "-"),
+    imageUrl: imageUrl ? toAbsoluteUrl(imageUrl, url) : undefined,
+    keywords: unique([
+      ...splitKeywords(node.keywords),
+      ...metaAll("article:tag"),
+      ...(node.keywords
+        ? []
+        : splitKeywords(meta("keywords", "news_keywords"))),
+    ]),
+  };
+};
+
+export default {
+  extractMetadata,
+};
@@ -0,0 +1,143 @@
+/**
+ * PDF抽出モジュール
+ * 論文やスライド、報告書などのPDFからページごとにテキストを取り出す
+ */
+import path from "path";
+import pdfParse from "pdf-parse/lib/pdf-parse.js";
+import { MediaType, SCRAPER_SETTINGS } from "../config/constants";
+import { logInfo } from "../utils/logger";
+import { ScrapedContent } from "../types";
+import { countWords } from "./content-extractor";
+
+/**
+ * URLの拡張子がPDFかどうかを判定する
+ * @param url 対象のURL
+ */
+export const isPdfUrl = (url: string): boolean => {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith(".pdf");
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * レスポンスがPDFかどうかを判定する（Content-Typeまたはファイルの先頭のシグネチャ）
+ * @param contentType レスポンスのContent-Type
+ * @param data レスポンスの内容
+ */
+export const isPdfResponse = (contentType: string, data: Buffer): boolean => {
+  return (
+    contentType.toLowerCase().includes("application/pdf") ||
+    data.subarray(0, 5).toString("latin1") === "%PDF-"
+  );
+};
+
+/**
+ * ページのテキストを行単位で組み立てる
+ * @param pageData pdf.js のページ
+ * @returns ページのテキスト
+ */
+const renderPage = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: true,
+    disableCombineTextItems: false,
+  });
+
+  // y座標が変わったところで改行する
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    if (lastY !== undefined && y !== lastY) {
+      text += "\n";
+    }
+    text += item.str;
+    lastY = y;
+  }
+  return text.replace(/[ \t]+/g, " ").trim();
+};
+
+/**
+ * PDFの日付（D:YYYYMMDDHHmmSS+09'00'）をISO 8601形式に変換
+ * @param value PDFの日付文字列
+ * @returns ISO 8601形式の日付（解析できない場合は空文字）
+ */
+const parsePdfDate = (value: string | undefined): string => {
+  const match = (value || "").match(
+    /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/
+  );
+  if (!match) {
+    return "";
+  }
+  const [
+    ,
+    year,
+    month = "01",
+    day = "01",
+    hour = "00",
+    min = "00",
+    sec = "00",
+  ] = match;
+  const zone = match[7]
+    ? match[7] === "Z"
+      ? "Z"
+      : match[7].replace(/'/g, "").replace(/(\d{2})(\d{2})$/, "$1:$2")
+    : "Z";
+  const date = new Date(`${year}-${month}-${day}T${hour}:${min}:${sec}${zone}`);
+  return isNaN(date.getTime()) ? "" : date.toISOString();
+};
+
+/**
+ * PDFからテキストとメタデータを取り出す
+ * @param data PDFの内容
+ * @param url PDFのURL（タイトルがない場合はファイル名を使う）
+ * @returns コンテンツ情報
+ */
+export const extractPdf = async (
+  data: Buffer,
+  url: string
+): Promise<ScrapedContent> => {
+  const pages: string[] = [];
+  const result = await pdfParse(data, {
+    max: SCRAPER_SETTINGS.PDF_MAX_PAGES,
+    pagerender: async (pageData) => {
+      const text = await renderPage(pageData);
+      pages[pageData.pageIndex] = text;
+      return text;
+    },
+  });
+
+  // ページの区切りを残して本文にする（空のページは除く）
+  const content = pages
+    .filter((page) => page)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n");
+
+  const info = result.info || {};
+  const title =
+    String(info.Title || "").trim() ||
+    (result.metadata?.get("dc:title") || "").trim() ||
+    decodeURIComponent(path.basename(new URL(url).pathname));
+  const author = String(info.Author || "").trim();
+
+  logInfo(
+    `PDFのテキスト抽出完了: ${result.numrender}/${result.numpages}ページ, ${content.length}文字`
+  );
+
+  return {
+    url,
+    title,
+    content,
+    wordCount: countWords(content),
+    publishDate: parsePdfDate(info.CreationDate),
+    authors: author ? [author] : undefined,
+    mediaType: MediaType.DOCUMENT,
+  };
+};
+
+export default {
+  isPdfUrl,
+  isPdfResponse,
+  extractPdf,
+};
@@ -0,0 +1,301 @@
+/**
+ * クロールマナーモジュール
+ * ホストごとにrobots.txtを取得してキャッシュし、Disallow/Allow と Crawl-delay に従う
+ * また、同じホストへのアクセスは1件ずつ、間隔を空けて行う
+ */
+import axios from "axios";
+import { config } from "../config";
+import { SCRAPER_SETTINGS, URL_SETTINGS } from "../config/constants";
+import { logInfo, logWarn } from "../utils/logger";
+
+/**
+ * robots.txtのルール
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * robots.txtのうち、このアプリケーションに適用されるルール
+ */
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * クロールマナーの適用状況
+ */
+export interface PolitenessMetrics {
+  robotsFetched: number; // robots.txtを取得したホスト数
+  robotsDisallowed: number; // robots.txtで禁止されていたため取得しなかったURL数
+  hostWaits: number; // ホストごとのアクセス間隔のために待機した回数
+}
+
+// robots.txtがない、または取得できない場合のルール（すべて許可）
+const ALLOW_ALL: RobotsRules = { rules: [] };
+
+// オリジンごとのrobots.txtのキャッシュ
+const robotsCache = new Map<string, Promise<RobotsRules>>();
+// ホストごとの実行中のアクセス（この後に次のアクセスを行う）
+const hostQueues = new Map<string, Promise<void>>();
+// ホストごとの最後にアクセスした時刻
+const lastAccessByHost = new Map<string, number>();
+
+const metrics: PolitenessMetrics = {
+  robotsFetched: 0,
+  robotsDisallowed: 0,
+  hostWaits: 0,
+};
+
+/**
+ * robots.txtを解析し、指定したユーザーエージェントに適用されるルールを取り出す
+ * ユーザーエージェント名に一致するグループがあればそれを、なければ「*」のグループを使う
+ * @param text robots.txtの内容
+ * @param userAgent ユーザーエージェント名
+ * @returns 適用されるルール
+ */
+export const parseRobotsTxt = (
+  text: string,
+  userAgent: string
+): RobotsRules => {
+  const agent = userAgent.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; delay?: number }[] =
+    [];
+  let current: (typeof groups)[number] | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // 連続する User-agent 行は同じグループとして扱う
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    inAgentLines = false;
+    if (!current) {
+      continue;
+    }
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay" && !isNaN(Number(value))) {
+      current.delay = Number(value);
+    }
+  }
+
+  // 最も長く一致するユーザーエージェント名のグループを使う（同じ名前のグループはまとめる）
+  const matchLength = (name: string): number =>
+    name !== "*" && agent.includes(name) ? name.length : -1;
+  const best = Math.max(
+    -1,
+    ...groups.flatMap((group) => group.agents.map(matchLength))
+  );
+  const matched =
+    best > 0
+      ? groups.filter((group) =>
+          group.agents.some((name) => matchLength(name) === best)
+        )
+      : groups.filter((group) => group.agents.includes("*"));
+
+  const delays = matched
+    .map((group) => group.delay)
+    .filter((delay): delay is number => delay !== undefined);
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelayMs:
+      delays.length > 0
+        ? Math.min(
+            Math.max(...delays) * 1000,
+            SCRAPER_SETTINGS.MAX_CRAWL_DELAY_MS
+          )
+        : undefined,
+  };
+};
+
+/**
+ * robots.txtのパスのパターン（* と末尾の $ に対応）がパスに一致するかどうか
+ * @param pattern パターン
+ * @param path パス（クエリ文字列を含む）
+ */
+const matchesPattern = (pattern: string, path: string): boolean => {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+};
+
+/**
+ * ルールに従ってURLへのアクセスが許可されているかどうかを判定する
+ * 最も長く一致するルールを優先し、同じ長さの場合は Allow を優先する
+ * @param rules 適用されるルール
+ * @param url 対象のURL
+ */
+export const isAllowedByRules = (rules: RobotsRules, url: string): boolean => {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+
+  let matched: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) {
+      continue;
+    }
+    if (
+      !matched ||
+      rule.pattern.length > matched.pattern.length ||
+      (rule.pattern.length === matched.pattern.length && rule.allow)
+    ) {
+      matched = rule;
+    }
+  }
+  return matched ? matched.allow : true;
+};
+
+/**
+ * robots.txtを取得して解析する
+ * robots.txtがない場合や取得できない場合はすべて許可する
+ * @param origin 対象のオリジン
+ */
+const fetchRobotsTxt = async (origin: string): Promise<RobotsRules> => {
+  const robotsUrl = `${origin}/robots.txt`;
+  try {
+    const response = await axios.get<string>(robotsUrl, {
+      responseType: "text",
+      timeout: SCRAPER_SETTINGS.ROBOTS_TIMEOUT_MS,
+      maxRedirects: URL_SETTINGS.MAX_REDIRECTS,
+      headers: { "User-Agent": config.scraper.httpUserAgent },
+      validateStatus: () => true,
+    });
+    metrics.robotsFetched++;
+
+    if (response.status >= 400) {
+      if (response.status >= 500) {
+        logWarn(`robots.txtを取得できないためすべて許可します: ${robotsUrl}`, {
+          status: response.status,
+        });
+      }
+      return ALLOW_ALL;
+    }
+    return parseRobotsTxt(
+      String(response.data || ""),
+      config.scraper.robotsUserAgent
+    );
+  } catch (error) {
+    logWarn(`robots.txtを取得できないためすべて許可します: ${robotsUrl}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return ALLOW_ALL;
+  }
+};
+
+/**
+ * URLのオリジンに適用されるrobots.txtのルールを取得（実行中はキャッシュする）
+ * @param url 対象のURL
+ */
+const getRobotsRules = (url: string): Promise<RobotsRules> => {
+  if (!config.scraper.respectRobotsTxt) {
+    return Promise.resolve(ALLOW_ALL);
+  }
+
+  const { origin } = new URL(url);
+  let rules = robotsCache.get(origin);
+  if (!rules) {
+    rules = fetchRobotsTxt(origin);
+    robotsCache.set(origin, rules);
+  }
+  return rules;
+};
+
+/**
+ * robots.txtでURLへのアクセスが許可されているかどうかを確認する
+ * @param url 対象のURL
+ * @returns 許可されていればtrue
+ */
+export const isAllowedByRobots = async (url: string): Promise<boolean> => {
+  let allowed: boolean;
+  try {
+    allowed = isAllowedByRules(await getRobotsRules(url), url);
+  } catch {
+    // URLとして解釈できない場合は取得処理側でエラーにする
+    return true;
+  }
+
+  if (!allowed) {
+    metrics.robotsDisallowed++;
+    logInfo(`robots.txtでクロールが禁止されています: ${url}`);
+  }
+  return allowed;
+};
+
+/**
+ * 同じホストへのアクセスを1件ずつ、間隔を空けて実行する
+ * 間隔は SCRAPER_HOST_DELAY_MS と robots.txt の Crawl-delay の長い方
+ * @param url アクセスするURL
+ * @param fn アクセスする処理
+ * @returns 処理の結果
+ */
+export const withHostLimit = async <T>(
+  url: string,
+  fn: () => Promise<T>
+): Promise<T> => {
+  let host: string;
+  try {
+    host = new URL(url).host;
+  } catch {
+    return fn();
+  }
+
+  // 前のアクセスが終わるまで待つ
+  const previous = hostQueues.get(host) || Promise.resolve();
+  let release = () => {};
+  const current = new Promise<void>((resolve) => (release = resolve));
+  const queued = previous.then(() => current);
+  hostQueues.set(host, queued);
+  await previous;
+
+  try {
+    const { crawlDelayMs = 0 } = await getRobotsRules(url);
+    const delayMs = Math.max(config.scraper.hostDelayMs, crawlDelayMs);
+    const waitMs = (lastAccessByHost.get(host) || 0) + delayMs - Date.now();
+    if (waitMs > 0) {
+      metrics.hostWaits++;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    lastAccessByHost.set(host, Date.now());
+    return await fn();
+  } finally {
+    release();
+    if (hostQueues.get(host) === queued) {
+      hostQueues.delete(host);
+    }
+  }
+};
+
+/**
+ * クロールマナーの適用状況を取得
+ */
+export const getPolitenessMetrics = (): PolitenessMetrics => ({ ...metrics });
+
+export default {
+  parseRobotsTxt,
+  isAllowedByRules,
+  isAllowedByRobots,
+  withHostLimit,
+  getPolitenessMetrics,
+};
@@ -0,0 +1,167 @@
+/**
+ * スクレイピング結果のキャッシュモジュール
+ * 取得した本文を正規URLごとにデータベースへ保存し、実行をまたいで再利用する
+ * （保存した本文は後から要約し直す際にも使う）
+ */
+import crypto from "crypto";
+import { ScrapedPage } from "@prisma/client";
+import { config } from "../config";
+import { MediaType } from "../config/constants";
+import { findScrapedPage, saveScrapedPage } from "../db";
+import { logInfo, logWarn } from "../utils/logger";
+import { ScrapedContent } from "../types";
+
+/**
+ * 本文以外の抽出結果（metadata 列にJSONで保存する項目）
+ */
+interface ScrapedPageMetadata {
+  redirectChain?: string[];
+  wordCount?: number;
+  description?: string;
+  modifiedDate?: string;
+  language?: string;
+  imageUrl?: string;
+  authors?: string[];
+  tags?: string[];
+  mediaType?: MediaType;
+}
+
+/**
+ * 本文のハッシュを計算
+ * @param content 本文
+ * @returns SHA-256ハッシュ（16進数）
+ */
+export const hashContent = (content: string): string => {
+  return crypto.createHash("sha256").update(content).digest("hex");
+};
+
+/**
+ * キャッシュの行が有効期間内かどうかを判定する
+ * 取得に失敗した結果は再利用しない
+ * @param row キャッシュの行
+ */
+const isFresh = (row: ScrapedPage): boolean => {
+  if (row.error) {
+    return false;
+  }
+  const ttlMs = config.scraper.cacheTtlHours * 60 * 60 * 1000;
+  return Date.now() - row.fetchedAt.getTime() < ttlMs;
+};
+
+/**
+ * キャッシュの行をScrapedContentに変換
+ * @param row キャッシュの行
+ * @param url スクレイピングを依頼されたURL
+ */
+const toScrapedContent = (row: ScrapedPage, url: string): ScrapedContent => {
+  let metadata: ScrapedPageMetadata = {};
+  try {
+    metadata = row.metadata ? JSON.parse(row.metadata) : {};
+  } catch {
+    // 壊れたメタデータは無視して本文だけを使う
+  }
+
+  return {
+    url,
+    canonicalUrl: row.canonicalUrl,
+    redirectChain: metadata.redirectChain,
+    title: row.title || undefined,
+    content: row.content,
+    wordCount: metadata.wordCount,
+    siteName: row.siteName || undefined,
+    description: metadata.description,
+    publishDate: row.publishDate || undefined,
+    modifiedDate: metadata.modifiedDate,
+    language: metadata.language,
+    imageUrl: metadata.imageUrl,
+    authors: metadata.authors,
+    tags: metadata.tags,
+    mediaType: metadata.mediaType,
+    fetchedAt: row.fetchedAt,
+  };
+};
+
+/**
+ * 有効期間内のスクレイピング結果をキャッシュから取得
+ * @param url 元のURLまたは正規URL
+ * @returns コンテンツ情報（キャッシュがない、または期限切れの場合はnull）
+ */
+export const getCachedScrape = async (
+  url: string
+): Promise<ScrapedContent | null> => {
+  if (config.scraper.cacheTtlHours <= 0) {
+    return null;
+  }
+
+  try {
+    const row = await findScrapedPage(url);
+    if (!row || !isFresh(row)) {
+      return null;
+    }
+    logInfo(
+      `キャッシュ済みのスクレイピング結果を使用します: ${url}（${row.fetchedAt.toISOString()}取得）`
+    );
+    return toScrapedContent(row, url);
+  } catch (error) {
+    logWarn(`スクレイピング結果のキャッシュを参照できませんでした: ${url}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * スクレイピング結果をキャッシュに保存
+ * 取得に失敗した場合は、以前に取得できた本文を上書きしない
+ * @param scraped スクレイピング結果
+ */
+export const cacheScrapedContent = async (
+  scraped: ScrapedContent
+): Promise<void> => {
+  const canonicalUrl = scraped.canonicalUrl || scraped.url;
+
+  try {
+    if (scraped.error) {
+      const existing = await findScrapedPage(canonicalUrl);
+      if (existing && !existing.error) {
+        return;
+      }
+    }
+
+    const metadata: ScrapedPageMetadata = {
+      redirectChain: scraped.redirectChain,
+      wordCount: scraped.wordCount,
+      description: scraped.description,
+      modifiedDate: scraped.modifiedDate,
+      language: scraped.language,
+      imageUrl: scraped.imageUrl,
+      authors: scraped.authors,
+      tags: scraped.tags,
+      mediaType: scraped.mediaType,
+    };
+    await saveScrapedPage({
+      url: scraped.url,
+      canonicalUrl,
+      title: scraped.title,
+      siteName: scraped.siteName,
+      publishDate: scraped.publishDate,
+      content: scraped.content,
+      metadata: JSON.stringify(metadata),
+      contentHash: hashContent(scraped.content),
+      error: scraped.error,
+    });
+  } catch (error) {
+    logWarn(
+      `スクレイピング結果をキャッシュに保存できませんでした: ${canonicalUrl}`,
+      {
+        error: error instanceof Error ? error.message : String(error),
+      }
+    );
+  }
+};
+
+export default {
+  hashContent,
+  getCachedScrape,
+  cacheScrapedContent,
+};
@@ -2,13 +2,39 @@
  * Webスクレイピングモジュール
  * ツイート内のリンクからWebページの内容を取得
  */
-import puppeteer from "puppeteer";
+import axios from "axios";
 // ESMインポートではなくCommonJSスタイルでcheerioをインポート
 const cheerio = require("cheerio");
-import { logError, logInfo } from "../utils/logger";
+import { logError, logInfo, logWarn } from "../utils/logger";
 import { ScrapedContent } from "../types";
+import {
+  MediaType,
+  SCRAPER_SETTINGS,
+  ScrapeFailureReason,
+  URL_SETTINGS,
+} from "../config/constants";
 import { config } from "../config";
 import { retryAsync } from "../utils/error-handler";
+import { ResolvedUrl, resolveUrl } from "./url-resolver";
+import { withPage } from "./browser-pool";
+import { countWords, extractMainContent } from "./content-extractor";
+import { extractMetadata } from "./metadata-extractor";
+import { extractSiteContent, rewriteSiteUrl } from "./site-extractors";
+import { extractPdf, isPdfResponse, isPdfUrl } from "./pdf-extractor";
+import {
+  extractPodcastEpisode,
+  fetchYouTubeVideo,
+  getYouTubeVideoId,
+} from "./media-extractor";
+import { cacheScrapedContent, getCachedScrape } from "./scrape-cache";
+import { isAllowedByRobots, withHostLimit } from "./politeness";
+import {
+  describeFailure,
+  detectFetchFailure,
+  detectPageFailure,
+  isLoginUrl,
+  toFailedContent,
+} from "./failure-detector";
 
 /**
  * コンテンツがエラーメッセージかどうかを判定する
@@ -30,172 +56,376 @@ function isErrorMessage(content: string): boolean {
 }
 
 /**
- * HTMLからコンテンツを抽出する
- * @param $ cheerioオブジェクト
- * @param title ページタイトル（コンテンツが見つからない場合のフォールバック）
- * @returns 抽出したコンテンツ
+ * HTMLをパースしてコンテンツ情報を取り出す
+ * @param html ページのHTML
+ * @param url ページのURL
+ * @returns コンテンツ情報（ブラウザ非対応エラー、有料記事、ログインが必要なページなどの場合は error を設定）
  */
-function extractContent($: any, title: string): string {
-  // 記事コンテンツを取得（一般的な記事コンテナを対象）
-  let content = "";
-  const contentSelectors = [
-    "article",
-    ".article",
-    ".post-content",
-    ".entry-content",
-    "main",
-    "#main",
-    ".main-content",
-    ".content",
-  ];
+function parseHtml(html: string, url: string): ScrapedContent {
+  const $ = cheerio.load(html);
+
+  // メタデータ取得（JSON-LD、OpenGraph、Twitterカード、metaタグから）
+  const { keywords, ...metadata } = extractMetadata($, url);
+  const pageMetadata = {
+    description: metadata.description,
+    modifiedDate: metadata.modifiedDate,
+    language: metadata.language,
+    imageUrl: metadata.imageUrl,
+    authors: metadata.authors,
+    tags: keywords,
+  };
+
+  // タイトル取得（titleタグにはサイト名が付くことが多いため、メタデータのタイトルを優先）
+  const title = metadata.title || $("title").text().trim();
+  logInfo(`タイトル: ${title}`);
+
+  const siteName = metadata.siteName || "";
+  const publishDate = metadata.publishDate || "";
+
+  // サイト別の抽出処理（GitHub、arXivなど）がある場合はそちらを優先
+  const siteContent = extractSiteContent($, url);
+  if (siteContent) {
+    const { extractor, ...extracted } = siteContent;
+    const wordCount = countWords(extracted.content);
+    logInfo(
+      `サイト別の抽出処理（${extractor}）でコンテンツ抽出完了: ${extracted.content.length}文字（${wordCount}語）`
+    );
+    return withPageFailure(
+      html,
+      {
+        ...pageMetadata,
+        ...extracted,
+        url,
+        title: extracted.title || title,
+        wordCount,
+        siteName: extracted.siteName || siteName,
+        publishDate: extracted.publishDate || publishDate,
+        authors: extracted.authors?.length
+          ? extracted.authors
+          : metadata.authors,
+        tags: extracted.tags?.length ? extracted.tags : keywords,
+        mediaType: extracted.mediaType || MediaType.ARTICLE,
+      },
+      { siteExtracted: true }
+    );
+  }
 
-  for (const selector of contentSelectors) {
-    const element = $(selector);
-    if (element.length > 0) {
-      // HTML要素を除去してテキストのみ取得
-      content = element.text().trim().replace(/\s+/g, " ");
-      break;
-    }
+  // ポッドキャストのエピソードページは説明文（ショーノート）を本文とする
+  const podcastEpisode = extractPodcastEpisode($, url);
+  if (podcastEpisode) {
+    logInfo(
+      `ポッドキャストのエピソード情報を抽出しました: ${podcastEpisode.content.length}文字`
+    );
+    return withPageFailure(html, {
+      ...pageMetadata,
+      ...podcastEpisode,
+      title: podcastEpisode.title || title,
+      siteName: podcastEpisode.siteName || siteName,
+      publishDate: podcastEpisode.publishDate || publishDate,
+      authors: podcastEpisode.authors || metadata.authors,
+      tags: keywords,
+    });
   }
 
-  // コンテンツが見つからない場合は本文全体を使用
-  if (!content) {
-    // 不要な要素を削除
-    $("header, nav, footer, script, style, noscript, iframe, form").remove();
-    content = $("body").text().trim().replace(/\s+/g, " ");
+  // 本文抽出（ナビゲーションや関連記事などを除く）
+  const { content, wordCount } = extractMainContent($, title);
+
+  // エラーメッセージのチェック
+  if (isErrorMessage(content)) {
+    logInfo(`エラーメッセージが検出されました: ${url}`);
+    return {
+      url,
+      title,
+      content: "", // エラーメッセージの場合は空文字を返す
+      siteName,
+      publishDate,
+      error: "ブラウザ非対応エラーが検出されました",
+    };
   }
 
-  // 空の場合は仕方なくタイトルだけを使用
-  if (!content) {
-    content = title;
+  // 有料記事、ログインが必要なページ、ボット対策のページなどのチェック
+  const result = withPageFailure(html, {
+    ...pageMetadata,
+    url,
+    title,
+    content,
+    wordCount,
+    siteName,
+    publishDate,
+    mediaType: MediaType.ARTICLE,
+  });
+  if (!result.failureReason) {
+    logInfo(`コンテンツ抽出完了: ${content.length}文字（${wordCount}語）`);
+  }
+  return result;
+}
+
+/**
+ * 有料記事、ログインが必要なページ、ボット対策のページなどを検出し、該当する場合は取得に失敗した結果にする
+ * 本文の抽出処理はscriptやformなどの要素を取り除くため、検出には元のHTMLを読み込み直した文書を使う
+ * @param html ページのHTML
+ * @param scraped HTMLから抽出したコンテンツ情報
+ * @param options.siteExtracted サイト別の抽出処理で本文を得た場合はtrue
+ * @returns コンテンツ情報（失敗の場合は error と failureReason を設定）
+ */
+function withPageFailure(
+  html: string,
+  scraped: ScrapedContent,
+  options?: { siteExtracted?: boolean }
+): ScrapedContent {
+  const failureReason = detectPageFailure(
+    cheerio.load(html),
+    scraped.url,
+    scraped.content,
+    options
+  );
+  if (!failureReason) {
+    return scraped;
   }
 
-  return content;
+  logInfo(`${describeFailure(failureReason)}: ${scraped.url}`);
+  // 有料記事は見えている冒頭部分とメタデータ（説明文など）を残す
+  if (failureReason === ScrapeFailureReason.PAYWALL) {
+    return {
+      ...scraped,
+      error: describeFailure(failureReason),
+      failureReason,
+    };
+  }
+  return {
+    url: scraped.url,
+    title: scraped.title,
+    content: "",
+    wordCount: 0,
+    siteName: scraped.siteName,
+    publishDate: scraped.publishDate,
+    mediaType: scraped.mediaType || MediaType.ARTICLE,
+    error: describeFailure(failureReason),
+    failureReason,
+  };
 }
 
 /**
- * URLからWebページの内容を取得する
+ * HTTPで取得したページがJavaScriptで描画されるページかどうかを判定する
+ * 本文が空・短すぎる、noscriptでJavaScriptの有効化を求めている、
+ * ブラウザ非対応エラーやボット対策のページが表示されている場合はブラウザでの取得が必要と判断する
+ * @param html HTTPで取得したHTML
+ * @param scraped HTMLから抽出したコンテンツ情報
+ * @returns ブラウザでの取得が必要ならtrue
+ */
+function needsBrowser(html: string, scraped: ScrapedContent): boolean {
+  // ボット対策はブラウザであれば通過できる場合があるが、有料記事やログインはブラウザでも変わらない
+  if (scraped.failureReason) {
+    return scraped.failureReason === ScrapeFailureReason.BOT_CHALLENGE;
+  }
+  if (scraped.error) {
+    return true;
+  }
+
+  // ポッドキャストなどの説明文は短くてもそのまま使う
+  if (scraped.mediaType && scraped.mediaType !== MediaType.ARTICLE) {
+    return false;
+  }
+
+  // タイトルだけがフォールバックで入っている場合も本文なしとみなす
+  const content =
+    scraped.content === scraped.title ? "" : scraped.content.trim();
+  if (content.length < SCRAPER_SETTINGS.MIN_CONTENT_LENGTH) {
+    return true;
+  }
+
+  // noscriptでJavaScriptの有効化を求めていて、本文も短い場合はJavaScriptで描画されるページ
+  if (content.length >= SCRAPER_SETTINGS.NOSCRIPT_MAX_CONTENT_LENGTH) {
+    return false;
+  }
+  const $ = cheerio.load(html);
+  const noscriptText = $("noscript").text().toLowerCase();
+  return SCRAPER_SETTINGS.NOSCRIPT_PATTERNS.some((pattern) =>
+    noscriptText.includes(pattern)
+  );
+}
+
+/**
+ * HTTPのGETでページを取得する（JavaScriptは実行しない）
  * @param url スクレイピング対象のURL
+ * @returns Content-Typeとレスポンスの内容
+ */
+const fetchResponse = async (
+  url: string
+): Promise<{ contentType: string; data: Buffer }> => {
+  const response = await withHostLimit(url, () =>
+    axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      timeout: SCRAPER_SETTINGS.HTTP_TIMEOUT_MS,
+      maxRedirects: URL_SETTINGS.MAX_REDIRECTS,
+      maxContentLength: SCRAPER_SETTINGS.MAX_RESPONSE_BYTES,
+      headers: {
+        "User-Agent": config.scraper.httpUserAgent,
+        Accept: "text/html,application/xhtml+xml,application/pdf",
+      },
+    })
+  );
+
+  const data = Buffer.from(response.data);
+  if (data.length === 0) {
+    throw new Error("コンテンツが取得できませんでした");
+  }
+
+  return {
+    contentType: String(response.headers["content-type"] || ""),
+    data,
+  };
+};
+
+/**
+ * PDFからテキストを抽出する（失敗した場合はエラー情報を返す）
+ * @param data PDFの内容
+ * @param url PDFのURL
  * @returns コンテンツ情報
  */
-export const scrapeUrl = async (url: string): Promise<ScrapedContent> => {
-  logInfo(`URLのスクレイピングを開始: ${url}`);
+const extractPdfContent = async (
+  data: Buffer,
+  url: string
+): Promise<ScrapedContent> => {
+  try {
+    logInfo(`PDFからテキストを抽出します: ${url}`);
+    return await extractPdf(data, url);
+  } catch (error) {
+    logError("PDFの解析に失敗しました", {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      url,
+      content: "",
+      error: `PDFの解析に失敗しました: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+};
 
+/**
+ * HTTPで取得し、HTMLから本文を抽出する（PDFの場合はPDFからテキストを抽出する）
+ * @param url スクレイピング対象のURL
+ * @param prefetched URL解決時に取得済みのレスポンス（ある場合は取得し直さない）
+ * @returns コンテンツ情報（ブラウザでの取得が必要な場合はnull）
+ */
+const fetchPageWithHttp = async (
+  url: string,
+  prefetched?: { contentType: string; data: Buffer }
+): Promise<ScrapedContent | null> => {
   try {
-    // 存在しないURLやアクセスできないURLの場合はエラー
-    if (!url || !url.startsWith("http")) {
-      return {
-        url,
-        content: "",
-        error: "無効なURLです",
-      };
+    logInfo(`HTTPでスクレイピング開始: ${url}`);
+    const { contentType, data } = prefetched || (await fetchResponse(url));
+
+    // PDFはブラウザで取得しても内容が得られないため、ここで抽出する
+    if (isPdfResponse(contentType, data)) {
+      return await extractPdfContent(data, url);
     }
+    if (contentType && !contentType.includes("html")) {
+      throw new Error(`HTML以外のコンテンツです: ${contentType}`);
+    }
+
+    const html = data.toString("utf-8");
+    logInfo(`HTMLコンテンツ取得完了: ${html.length}文字`);
 
+    const scraped = parseHtml(html, url);
+    if (needsBrowser(html, scraped)) {
+      logInfo(`JavaScriptで描画されるページのためブラウザで取得します: ${url}`);
+      return null;
+    }
+    return scraped;
+  } catch (error) {
+    // 存在しないページや有料記事などはブラウザで取得しても結果が変わらない
+    const failureReason = detectFetchFailure(error);
+    if (
+      failureReason &&
+      failureReason !== ScrapeFailureReason.BOT_CHALLENGE &&
+      failureReason !== ScrapeFailureReason.TIMEOUT
+    ) {
+      logWarn(`${describeFailure(failureReason)}: ${url}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return toFailedContent(url, failureReason);
+    }
+
+    logInfo(`HTTPでの取得に失敗したためブラウザで取得します: ${url}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * Puppeteerでページを取得する（JavaScriptで描画されるページ向け）
+ * @param url スクレイピング対象のURL
+ * @returns コンテンツ情報
+ */
+const fetchPageWithBrowser = async (url: string): Promise<ScrapedContent> => {
+  try {
     // Puppeteerを使用してJavaScriptが必要なサイトに対応
     return await retryAsync(
       async () => {
-        // Puppeteerブラウザの起動
+        // ブラウザプールのページを使用
         logInfo(`Puppeteerでスクレイピング開始: ${url}`);
-        const browser = await puppeteer.launch({
-          headless: true,
-          args: ["--no-sandbox", "--disable-setuid-sandbox"],
-        });
-
         try {
-          const page = await browser.newPage();
-
-          // タイムアウト設定
-          await page.setDefaultNavigationTimeout(30000);
-
-          // ページにアクセス
-          logInfo(`ページに接続中: ${url}`);
-          await page.goto(url, { waitUntil: "networkidle2" });
-
-          // HTML取得
-          logInfo("HTMLコンテンツを取得中...");
-          const html = await page.content();
-
-          // HTMLが取得できたか確認
-          if (!html) {
-            throw new Error("HTMLコンテンツが取得できませんでした");
-          }
-
-          logInfo(`HTMLコンテンツ取得完了: ${html.length}文字`);
-
-          // cheerioを使ってHTMLをパース
-          try {
-            const $ = cheerio.load(html);
-
-            // タイトル取得
-            const title = $("title").text().trim();
-            logInfo(`タイトル: ${title}`);
+          return await withPage(url, async (page) => {
+            // タイムアウト設定
+            await page.setDefaultNavigationTimeout(30000);
+
+            // ページにアクセス
+            logInfo(`ページに接続中: ${url}`);
+            const response = await page.goto(url, {
+              waitUntil: "networkidle2",
+            });
+            if (response && [404, 410].includes(response.status())) {
+              return toFailedContent(url, ScrapeFailureReason.NOT_FOUND);
+            }
 
-            // サイト名取得（OGPから）
-            const siteName =
-              $('meta[property="og:site_name"]').attr("content") || "";
+            // HTML取得
+            logInfo("HTMLコンテンツを取得中...");
+            const html = await page.content();
 
-            // 公開日取得（metaタグから）
-            const publishDate =
-              $('meta[property="article:published_time"]').attr("content") ||
-              $('meta[name="pubdate"]').attr("content") ||
-              $('meta[name="publishdate"]').attr("content") ||
-              $('meta[name="date"]').attr("content") ||
-              "";
+            // HTMLが取得できたか確認
+            if (!html) {
+              throw new Error("HTMLコンテンツが取得できませんでした");
+            }
 
-            // 本文抽出
-            const content = extractContent($, title);
+            logInfo(`HTMLコンテンツ取得完了: ${html.length}文字`);
+
+            // cheerioを使ってHTMLをパース
+            try {
+              return parseHtml(html, url);
+            } catch (cheerioError) {
+              logError("cheerioでのHTMLパース中にエラーが発生しました", {
+                error:
+                  cheerioError instanceof Error
+                    ? cheerioError.message
+                    : String(cheerioError),
+              });
+
+              // cheerioでのパースに失敗した場合、単純なテキスト抽出で対応
+              const title = await page.title();
+              const content = await page.evaluate(
+                () => document.body.innerText
+              );
 
-            // エラーメッセージのチェック
-            if (isErrorMessage(content)) {
-              logInfo(`エラーメッセージが検出されました: ${url}`);
               return {
                 url,
                 title,
-                content: "", // エラーメッセージの場合は空文字を返す
-                siteName,
-                publishDate,
-                error: "ブラウザ非対応エラーが検出されました",
+                content: content || "",
+                wordCount: countWords(content || ""),
+                siteName: "",
+                publishDate: "",
               };
             }
-
-            logInfo(`コンテンツ抽出完了: ${content.length}文字`);
-
-            return {
-              url,
-              title,
-              content,
-              siteName,
-              publishDate,
-            };
-          } catch (cheerioError) {
-            logError("cheerioでのHTMLパース中にエラーが発生しました", {
-              error:
-                cheerioError instanceof Error
-                  ? cheerioError.message
-                  : String(cheerioError),
-            });
-
-            // cheerioでのパースに失敗した場合、単純なテキスト抽出で対応
-            const title = await page.title();
-            const content = await page.evaluate(() => document.body.innerText);
-
-            return {
-              url,
-              title,
-              content: content || "",
-              siteName: "",
-              publishDate: "",
-            };
-          }
+          });
         } catch (error) {
           logError(`スクレイピング処理でエラー発生`, {
             error: error instanceof Error ? error.message : String(error),
           });
           throw error;
-        } finally {
-          // 必ずブラウザを閉じる
-          await browser.close();
-          logInfo("ブラウザを閉じました");
         }
       },
       2,
@@ -216,33 +446,190 @@ export const scrapeUrl = async (url: string): Promise<ScrapedContent> => {
       error: error instanceof Error ? error.message : String(error),
     });
 
+    const failureReason = detectFetchFailure(error);
     return {
       url,
       content: "",
-      error: error instanceof Error ? error.message : String(error),
+      error: failureReason
+        ? describeFailure(failureReason)
+        : error instanceof Error
+        ? error.message
+        : String(error),
+      failureReason: failureReason || undefined,
+    };
+  }
+};
+
+/**
+ * Webページの内容を取得する（URL解決済みのURLを対象とする）
+ * まずHTTPで取得し、JavaScriptで描画されるページの場合のみPuppeteerで取得する
+ * PDFの場合はページごとにテキストを抽出し、YouTubeの動画の場合は概要欄と字幕を取得する
+ * @param url スクレイピング対象のURL
+ * @param prefetched URL解決時に取得済みのレスポンス
+ * @returns コンテンツ情報
+ */
+const fetchPage = async (
+  url: string,
+  prefetched?: { url: string; contentType: string; data: Buffer }
+): Promise<ScrapedContent> => {
+  // YouTubeの動画は視聴ページの動画情報と字幕から本文を作る
+  if (getYouTubeVideoId(url)) {
+    try {
+      return await fetchYouTubeVideo(url, prefetched);
+    } catch (error) {
+      logWarn(
+        `YouTubeの動画情報を取得できないため通常のページとして取得します: ${url}`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+  }
+
+  const scraped = await fetchPageWithHttp(url, prefetched);
+  if (scraped) {
+    return scraped;
+  }
+
+  // PDFのURLはブラウザで開いても本文が得られない
+  if (isPdfUrl(url)) {
+    return {
+      url,
+      content: "",
+      error: "PDFを取得できませんでした",
+    };
+  }
+  return fetchPageWithBrowser(url);
+};
+
+/**
+ * URLからWebページの内容を取得する
+ * 短縮URLのリダイレクトを追跡し、トラッキングパラメータを除いたURLを取得する
+ * 有効期間内のキャッシュがあればそれを返し、取得した結果はキャッシュに保存する
+ * robots.txtで禁止されているページは取得せず、error に理由を入れて返す
+ * @param url スクレイピング対象のURL
+ * @param options.refresh trueの場合はキャッシュを使わずに取得し直す
+ * @returns コンテンツ情報（正規URLとリダイレクトの経路を含む）
+ */
+export const scrapeUrl = async (
+  url: string,
+  options?: { refresh?: boolean }
+): Promise<ScrapedContent> => {
+  logInfo(`URLのスクレイピングを開始: ${url}`);
+
+  // 存在しないURLやアクセスできないURLの場合はエラー
+  if (!url || !url.startsWith("http")) {
+    return {
+      url,
+      content: "",
+      error: "無効なURLです",
     };
   }
+
+  // 同じURLを取得済みであればリダイレクトの追跡も行わない
+  if (!options?.refresh) {
+    const cached = await getCachedScrape(url);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  return scrapeResolvedUrl(url, await resolveUrl(url), options);
+};
+
+/**
+ * URL解決済みのURLからWebページの内容を取得する
+ * @param url スクレイピングを依頼されたURL
+ * @param resolved URL解決の結果
+ * @param options.refresh trueの場合はキャッシュを使わずに取得し直す
+ * @returns コンテンツ情報（正規URLとリダイレクトの経路を含む）
+ */
+const scrapeResolvedUrl = async (
+  url: string,
+  resolved: ResolvedUrl,
+  options?: { refresh?: boolean }
+): Promise<ScrapedContent> => {
+  const { finalUrl, canonicalUrl, redirectChain, robotsDisallowed, response } =
+    resolved;
+
+  // 別の短縮URLなどから同じ記事を取得済みの場合
+  if (!options?.refresh && canonicalUrl !== url) {
+    const cached = await getCachedScrape(canonicalUrl);
+    if (cached) {
+      return { ...cached, url, redirectChain };
+    }
+  }
+
+  // サイトによっては取得先を書き換える（arXivのPDFを概要ページにするなど）
+  const targetUrl = rewriteSiteUrl(finalUrl);
+  const isRewritten = targetUrl !== finalUrl;
+  // robots.txtで禁止されているページは取得せず、理由を記録する
+  // （URL解決時に確認済みの場合は再度確認しない）
+  const allowed =
+    !isRewritten && robotsDisallowed
+      ? false
+      : await isAllowedByRobots(targetUrl);
+  // 記事のURLからログインページにリダイレクトされた場合は取得しない
+  const redirectedToLogin = isLoginUrl(finalUrl) && !isLoginUrl(url);
+  const scrapedContent: ScrapedContent = !allowed
+    ? toFailedContent(targetUrl, ScrapeFailureReason.ROBOTS_DISALLOWED)
+    : redirectedToLogin
+    ? toFailedContent(targetUrl, ScrapeFailureReason.LOGIN_REQUIRED)
+    : await fetchPage(targetUrl, isRewritten ? undefined : response);
+  const result: ScrapedContent = {
+    ...scrapedContent,
+    url,
+    canonicalUrl,
+    redirectChain,
+  };
+
+  await cacheScrapedContent(result);
+  return result;
 };
 
 /**
  * 複数のURLを並行してスクレイピング
  * @param urls スクレイピング対象のURL配列
+ * @param options.refresh trueの場合はキャッシュを使わずに取得し直す
  * @returns スクレイピング結果の配列
  */
 export const scrapeMultipleUrls = async (
-  urls: string[]
+  urls: string[],
+  options?: { refresh?: boolean }
 ): Promise<ScrapedContent[]> => {
-  // 重複URLの削除
-  const uniqueUrls = [...new Set(urls)];
+  // 正規URLで重複を削除（短縮URLやトラッキングパラメータの違いを吸収）
+  // URL解決はホストごとのアクセス間隔を守って行い、解決時に取得したページはそのまま使う
+  const canonicalToUrl = new Map<
+    string,
+    { url: string; resolved?: ResolvedUrl }
+  >();
+  for (const url of new Set(urls)) {
+    const resolved =
+      url.startsWith("http") &&
+      (options?.refresh || !(await getCachedScrape(url)))
+        ? await resolveUrl(url)
+        : undefined;
+    const canonicalUrl = resolved?.canonicalUrl || url;
+    if (!canonicalToUrl.has(canonicalUrl)) {
+      canonicalToUrl.set(canonicalUrl, { url, resolved });
+    }
+  }
+  const uniqueUrls = [...canonicalToUrl.values()];
   logInfo(`${uniqueUrls.length}件のURLのスクレイピングを開始します`);
 
-  // 並行実行（最大5並列）
+  // 並行実行（最大5並列、同じホストへのアクセスは1件ずつ）
   const results: ScrapedContent[] = [];
   const batchSize = 5;
 
   for (let i = 0; i < uniqueUrls.length; i += batchSize) {
     const batch = uniqueUrls.slice(i, i + batchSize);
-    const batchResults = await Promise.all(batch.map((url) => scrapeUrl(url)));
+    const batchResults = await Promise.all(
+      batch.map(({ url, resolved }) =>
+        resolved
+          ? scrapeResolvedUrl(url, resolved, options)
+          : scrapeUrl(url, options)
+      )
+    );
     results.push(...batchResults);
   }
 
@@ -4,12 +4,17 @@
  */
 import { google } from "googleapis";
 import { config } from "../config";
-import { SHEET_SETTINGS } from "../config/constants";
-import { parseDate } from "../utils/date";
-import { logError, logInfo } from "../utils/logger";
+import { SHEET_SETTINGS, SourcePlatform } from "../config/constants";
+import {
+  ColumnMapping,
+  isHeaderRow,
+  parseColumnMapping,
+  resolveColumns,
+  rowToTweetData,
+} from "../utils/column-mapping";
+import { logError, logInfo, logWarn } from "../utils/logger";
 import { retryAsync } from "../utils/error-handler";
-import { SpreadsheetRow, TweetData } from "../types";
-import { saveTweet } from "../db";
+import { DateRange, TweetData, TweetSource } from "../types";
 
 /**
  * Google SheetsのAPIクライアントを初期化
@@ -23,13 +28,48 @@ const initSheetsClient = () => {
 };
 
 /**
- * スプレッドシートから過去1週間分のデータを取得
+ * シート名を含むA1形式の取得範囲を組み立てる
+ * @returns 取得範囲（例: 'お気に入り'!A:F）
  */
-export const fetchRecentTweets = async (): Promise<TweetData[]> => {
+const buildRange = (): string => {
+  const { sheetName, range } = config.googleSheets;
+  if (!sheetName) {
+    return range;
+  }
+  // シート名のシングルクォートは2つ重ねてエスケープ
+  return `'${sheetName.replace(/'/g, "''")}'!${range}`;
+};
+
+/**
+ * 先頭行がヘッダー行かどうかを設定と列名から判定
+ * @param firstRow 先頭行
+ * @param mapping 列マッピング
+ * @returns ヘッダー行ならtrue
+ */
+const hasHeaderRow = (firstRow: string[], mapping: ColumnMapping): boolean => {
+  const { header } = config.googleSheets;
+  if (header === "true" || header === "false") {
+    return header === "true";
+  }
+  return isHeaderRow(
+    firstRow,
+    mapping,
+    SHEET_SETTINGS.HEADER_ALIASES,
+    SHEET_SETTINGS.HEADER_MIN_MATCHES
+  );
+};
+
+/**
+ * スプレッドシートから指定期間（省略時は過去1週間）のデータを取得
+ * @param dateRange 取得対象の日付範囲
+ */
+export const fetchRecentTweets = async (
+  dateRange: DateRange = config.date.getDateRange()
+): Promise<TweetData[]> => {
   try {
     const sheets = initSheetsClient();
     const spreadsheetId = config.googleSheets.spreadsheetId;
-    const range = SHEET_SETTINGS.RANGE;
+    const range = buildRange();
 
     // スプレッドシートからデータを取得
     const response = await retryAsync(
@@ -57,52 +97,63 @@ export const fetchRecentTweets = async (): Promise<TweetData[]> => {
       return [];
     }
 
-    // ヘッダー行をスキップ（存在する場合）
-    const dataRows = rows[0][0] === "Date" ? rows.slice(1) : rows;
+    // ヘッダー行を検出し、列マッピングを列番号に解決
+    const mapping = parseColumnMapping(config.googleSheets.columns);
+    const header = hasHeaderRow(rows[0], mapping) ? rows[0] : undefined;
+    const dataRows = header ? rows.slice(1) : rows;
+    const columns = resolveColumns(
+      mapping,
+      header,
+      SHEET_SETTINGS.HEADER_ALIASES
+    );
+    if (columns.tweetDate === undefined) {
+      throw new Error(
+        "日付の列が見つかりません。GOOGLE_SHEETS_COLUMNS で列を指定してください"
+      );
+    }
 
     // 日付範囲を設定
-    const { startDate, endDate } = config.date.getDateRange();
+    const { startDate, endDate } = dateRange;
     logInfo(
       `${startDate.toISOString()} から ${endDate.toISOString()} までのデータを取得します`
     );
 
-    // 過去1週間分のデータをフィルタリングして変換
+    // 指定期間のデータをフィルタリングして変換
     const tweets: TweetData[] = [];
-    for (const row of dataRows) {
-      if (row.length >= 5) {
-        try {
-          const date = parseDate(row[SHEET_SETTINGS.DATE_COL_INDEX]);
-
-          // 日付が範囲内の場合のみ処理
-          if (date >= startDate && date <= endDate) {
-            const tweetData: TweetData = {
-              tweetDate: date,
-              account: row[SHEET_SETTINGS.ACCOUNT_COL_INDEX],
-              contentLink: row[SHEET_SETTINGS.CONTENT_LINK_COL_INDEX] || null,
-              tweetLink: row[SHEET_SETTINGS.TWEET_LINK_COL_INDEX],
-              content: row[SHEET_SETTINGS.CONTENT_COL_INDEX],
-            };
-            tweets.push(tweetData);
+    let skippedCount = 0;
+    for (const [index, row] of dataRows.entries()) {
+      try {
+        const tweetData: TweetData = {
+          ...rowToTweetData(row, columns),
+          platform: SourcePlatform.TWITTER,
+        };
 
-            // データベースに保存
-            await saveTweet({
-              tweetDate: tweetData.tweetDate,
-              account: tweetData.account,
-              tweetLink: tweetData.tweetLink,
-              contentLink: tweetData.contentLink,
-              content: tweetData.content,
-              category: "", // カテゴリは後で分類処理で設定
-            });
-          }
-        } catch (error) {
-          logError("ツイートデータの解析中にエラーが発生しました", {
+        // 日付が範囲内の場合のみ処理（データベースへの保存は呼び出し元で行う）
+        if (
+          tweetData.tweetDate >= startDate &&
+          tweetData.tweetDate <= endDate
+        ) {
+          tweets.push(tweetData);
+        }
+      } catch (error) {
+        // 日付を解析できない行などはスキップして処理を続ける
+        skippedCount++;
+        logWarn(
+          `スプレッドシートの${
+            index + (header ? 2 : 1)
+          }行目を解析できないためスキップします`,
+          {
             error: error instanceof Error ? error.message : String(error),
             row,
-          });
-        }
+          }
+        );
       }
     }
 
+    if (skippedCount > 0) {
+      logWarn(`解析できなかった${skippedCount}行をスキップしました`);
+    }
+
     logInfo(`${tweets.length}件のツイートデータを取得しました`);
     return tweets;
   } catch (error) {
@@ -113,6 +164,16 @@ export const fetchRecentTweets = async (): Promise<TweetData[]> => {
   }
 };
 
+/**
+ * Googleスプレッドシートを取得元とするTweetSource
+ */
+export const sheetsTweetSource: TweetSource = {
+  name: "sheets",
+  description: "IFTTTで連携されたGoogleスプレッドシート",
+  fetchTweets: (range) => fetchRecentTweets(range),
+};
+
 export default {
   fetchRecentTweets,
+  sheetsTweetSource,
 };
@@ -0,0 +1,295 @@
+/**
+ * サイト別抽出モジュール
+ * GitHub、arXiv、Zenn、Qiita、note.com など、汎用の本文抽出ではうまく扱えないサイトから
+ * 構造化された情報（リポジトリの説明とREADME、論文の著者と概要、記事のタグなど）を取り出す
+ */
+import { ScrapedContent } from "../types";
+import { elementToText } from "./content-extractor";
+
+/**
+ * サイト別の抽出結果（url 以外の ScrapedContent の項目）
+ */
+export type SiteExtractedContent = Omit<ScrapedContent, "url">;
+
+/**
+ * サイト別の抽出処理
+ */
+export interface SiteExtractor {
+  name: string;
+  hostnames: string[]; // 対象のホスト名（サブドメインも対象）
+  // 取得前にURLを書き換える（PDFへのリンクを概要ページに変えるなど）
+  rewriteUrl?: (url: URL) => string;
+  // 抽出できない場合はnullを返し、汎用の本文抽出を使う
+  extract: ($: any, url: URL) => SiteExtractedContent | null;
+}
+
+// 登録済みの抽出処理
+const extractors: SiteExtractor[] = [];
+
+/**
+ * metaタグの内容を取得
+ */
+const meta = ($: any, key: string): string =>
+  (
+    $(`meta[name="${key}"]`).attr("content") ||
+    $(`meta[property="${key}"]`).attr("content") ||
+    ""
+  ).trim();
+
+/**
+ * 要素のテキストを重複なく配列で取得
+ */
+const texts = ($: any, selector: string): string[] => {
+  const values = $(selector)
+    .map((_: number, el: any) => $(el).text().replace(/\s+/g, " ").trim())
+    .get()
+    .filter(Boolean);
+  return [...new Set<string>(values)];
+};
+
+/**
+ * GitHub（リポジトリのトップページ）
+ * リポジトリの説明、トピック、READMEを取り出す
+ */
+const githubExtractor: SiteExtractor = {
+  name: "github",
+  hostnames: ["github.com"],
+  extract: ($, url) => {
+    const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/?$/);
+    const $readme = $("article.markdown-body").first();
+    if (!match || $readme.length === 0) {
+      return null;
+    }
+
+    const [, owner, repo] = match;
+    const description =
+      $(".BorderGrid-cell p.f4").first().text().trim() ||
+      meta($, "description");
+    const readme = elementToText($, $readme);
+
+    return {
+      title: `${owner}/${repo}`,
+      content: description ? `${description}\n\n# README\n\n${readme}` : readme,
+      siteName: "GitHub",
+      authors: [owner],
+      tags: texts($, "a.topic-tag"),
+    };
+  },
+};
+
+/**
+ * arXiv（論文の概要ページ）
+ * PDFへのリンクは概要ページに書き換え、タイトル、著者、概要、分野を取り出す
+ */
+const arxivExtractor: SiteExtractor = {
+  name: "arxiv",
+  hostnames: ["arxiv.org"],
+  rewriteUrl: (url) => {
+    const match = url.pathname.match(/^\/pdf\/(.+?)(?:\.pdf)?$/);
+    return match ? `https://arxiv.org/abs/${match[1]}` : url.toString();
+  },
+  extract: ($) => {
+    const title = meta($, "citation_title");
+    const abstract =
+      $("blockquote.abstract")
+        .text()
+        .replace(/^\s*Abstract:\s*/i, "")
+        .replace(/\s+/g, " ")
+        .trim() || meta($, "citation_abstract");
+    if (!title || !abstract) {
+      return null;
+    }
+
+    // citation_author は「姓, 名」形式
+    const authors = $('meta[name="citation_author"]')
+      .map((_: number, el: any) =>
+        String($(el).attr("content") || "")
+          .split(",")
+          .map((part) => part.trim())
+          .reverse()
+          .join(" ")
+          .trim()
+      )
+      .get()
+      .filter(Boolean);
+    const subjects = $("td.subjects")
+      .text()
+      .split(";")
+      .map((subject: string) => subject.trim())
+      .filter(Boolean);
+
+    return {
+      title,
+      content: abstract,
+      siteName: "arXiv",
+      publishDate: meta($, "citation_online_date") || meta($, "citation_date"),
+      authors,
+      tags: subjects,
+    };
+  },
+};
+
+/**
+ * Zenn（記事ページ）
+ * Next.js のページデータがあればそこから、なければ本文の要素から取り出す
+ */
+const zennExtractor: SiteExtractor = {
+  name: "zenn",
+  hostnames: ["zenn.dev"],
+  extract: ($) => {
+    let article: any = null;
+    try {
+      const nextData = JSON.parse($("#__NEXT_DATA__").html() || "{}");
+      article = nextData?.props?.pageProps?.article || null;
+    } catch {
+      // ページデータが読めない場合はHTMLから取り出す
+    }
+
+    const $body = article?.bodyHtml
+      ? $("<div></div>").html(article.bodyHtml)
+      : $(".znc").first();
+    if ($body.length === 0) {
+      return null;
+    }
+
+    const author = article?.user?.name || meta($, "author");
+    return {
+      title: article?.title || meta($, "og:title"),
+      content: elementToText($, $body),
+      siteName: "Zenn",
+      publishDate: article?.publishedAt || "",
+      authors: author ? [author] : [],
+      tags: article?.topics
+        ? article.topics.map((topic: any) => topic.displayName || topic.name)
+        : texts($, 'a[href^="/topics/"]'),
+    };
+  },
+};
+
+/**
+ * Qiita（記事ページ）
+ */
+const qiitaExtractor: SiteExtractor = {
+  name: "qiita",
+  hostnames: ["qiita.com"],
+  extract: ($, url) => {
+    const $body = $("#personal-public-article-body, .it-MdContent").first();
+    if ($body.length === 0) {
+      return null;
+    }
+
+    // URLは /ユーザー名/items/記事ID の形式
+    const author = url.pathname.match(/^\/([^/]+)\/items\//);
+    return {
+      title: meta($, "og:title") || $("h1").first().text().trim(),
+      content: elementToText($, $body),
+      siteName: "Qiita",
+      publishDate: meta($, "article:published_time"),
+      authors: author ? [author[1]] : [],
+      tags: texts($, 'a[href^="/tags/"]'),
+    };
+  },
+};
+
+/**
+ * note.com（記事ページ）
+ */
+const noteExtractor: SiteExtractor = {
+  name: "note",
+  hostnames: ["note.com"],
+  extract: ($, url) => {
+    const $body = $(".note-common-styles__textnote-body").first();
+    if ($body.length === 0) {
+      return null;
+    }
+
+    // URLは /クリエイター名/n/記事ID の形式
+    const author =
+      $(".o-noteContentHeader__name").first().text().trim() ||
+      (url.pathname.match(/^\/([^/]+)\/n\//) || [])[1];
+    return {
+      title: meta($, "og:title") || $("h1").first().text().trim(),
+      content: elementToText($, $body),
+      siteName: "note",
+      publishDate: $("time").first().attr("datetime") || "",
+      authors: author ? [author] : [],
+      tags: texts($, 'a[href^="/hashtag/"]').map((tag) =>
+        tag.replace(/^#/, "")
+      ),
+    };
+  },
+};
+
+/**
+ * サイト別の抽出処理を登録
+ * @param extractor 抽出処理
+ */
+export const registerSiteExtractor = (extractor: SiteExtractor): void => {
+  if (extractors.some((registered) => registered.name === extractor.name)) {
+    throw new Error(`サイト別抽出 ${extractor.name} は既に登録されています`);
+  }
+  extractors.push(extractor);
+};
+
+/**
+ * URLに対応するサイト別の抽出処理を取得
+ * @param url 対象のURL
+ * @returns 抽出処理（対応するものがない場合はundefined）
+ */
+export const findSiteExtractor = (url: string): SiteExtractor | undefined => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return extractors.find((extractor) =>
+    extractor.hostnames.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`)
+    )
+  );
+};
+
+/**
+ * 取得前にサイト別の書き換えを行ったURLを返す
+ * @param url 対象のURL
+ * @returns 書き換え後のURL（対象外の場合はそのまま）
+ */
+export const rewriteSiteUrl = (url: string): string => {
+  const extractor = findSiteExtractor(url);
+  return extractor?.rewriteUrl ? extractor.rewriteUrl(new URL(url)) : url;
+};
+
+/**
+ * サイト別の抽出処理でコンテンツを取り出す
+ * @param $ cheerioオブジェクト
+ * @param url ページのURL
+ * @returns 抽出結果（対応するサイトでない、または抽出できない場合はnull）
+ */
+export const extractSiteContent = (
+  $: any,
+  url: string
+): (SiteExtractedContent & { extractor: string }) | null => {
+  const extractor = findSiteExtractor(url);
+  if (!extractor) {
+    return null;
+  }
+  const extracted = extractor.extract($, new URL(url));
+  if (!extracted || !extracted.content) {
+    return null;
+  }
+  return { ...extracted, extractor: extractor.name };
+};
+
+registerSiteExtractor(githubExtractor);
+registerSiteExtractor(arxivExtractor);
+registerSiteExtractor(zennExtractor);
+registerSiteExtractor(qiitaExtractor);
+registerSiteExtractor(noteExtractor);
+
+export default {
+  registerSiteExtractor,
+  findSiteExtractor,
+  rewriteSiteUrl,
+  extractSiteContent,
+};
@@ -2,17 +2,18 @@
  * 要約生成モジュール
  * 取得したコンテンツを適切な長さで要約
  */
-import OpenAI from "openai";
-import { ContentCategory, SUMMARY_LENGTH } from "../config/constants";
+import {
+  ContentCategory,
+  MediaType,
+  MediaTypeNames,
+  SUMMARY_LENGTH,
+  ScrapeFailureReason,
+  ScrapeFailureReasonNames,
+} from "../config/constants";
 import { SummarizedContent, TweetData, ScrapedContent } from "../types";
-import { config } from "../config";
 import { logError, logInfo } from "../utils/logger";
 import { retryAsync } from "../utils/error-handler";
-
-// OpenAI APIクライアントの初期化
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+import { getLlmProvider } from "./llm";
 
 /**
  * 要約生成のプロンプト
@@ -70,9 +71,8 @@ export const summarizeContent = async (
     // API呼び出しを実行（リトライ付き）
     return await retryAsync(
       async () => {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4",
-          messages: [
+        return await getLlmProvider().chat(
+          [
             {
               role: "system",
               content:
@@ -83,15 +83,11 @@ export const summarizeContent = async (
               content: createSummarizationPrompt(truncatedContent, category),
             },
           ],
-          temperature: 0.3, // 低めの温度で一貫性を高める
-        });
-
-        const response = completion.choices[0].message.content;
-        if (!response) {
-          throw new Error("APIからの応答が空です");
-        }
-
-        return response.trim();
+          {
+            stage: "summarizer",
+            temperature: 0.3, // 低めの温度で一貫性を高める
+          }
+        );
       },
       2, // 最大2回リトライ
       1000, // 1秒間隔
@@ -118,6 +114,7 @@ export const summarizeContent = async (
 
 /**
  * ツイートデータとスクレイピング結果を要約
+ * リンク先を取得できなかった場合（有料記事、ログインが必要なページなど）はツイート本文から要約する
  * @param tweet ツイートデータ
  * @param category コンテンツのカテゴリ
  * @param scrapedContent スクレイピング結果（任意）
@@ -128,10 +125,36 @@ export const summarizeTweet = async (
   category: ContentCategory,
   scrapedContent?: ScrapedContent
 ): Promise<SummarizedContent> => {
-  let contentToSummarize = tweet.content;
+  // スレッドや引用ツイートを展開済みの場合はそちらを使う
+  const tweetText = tweet.expandedContent || tweet.content;
+  let contentToSummarize = tweetText;
+
+  // 取得できなかったリンク先は、有料記事の見えている冒頭部分だけを補足に使う
+  if (scrapedContent?.failureReason) {
+    const reasonName = ScrapeFailureReasonNames[scrapedContent.failureReason];
+    const preview =
+      scrapedContent.failureReason === ScrapeFailureReason.PAYWALL
+        ? [
+            scrapedContent.title ? `タイトル: ${scrapedContent.title}` : "",
+            scrapedContent.description
+              ? `概要: ${scrapedContent.description}`
+              : "",
+            scrapedContent.content
+              ? `記事の冒頭（以降は有料部分のため読めていません）:\n${scrapedContent.content}`
+              : "",
+          ]
+            .filter(Boolean)
+            .map((section) => `\n\n${section}`)
+            .join("")
+        : "";
+    contentToSummarize = `${tweetText}\n\n（リンク先は${reasonName}のため、本文は読めていません）${preview}`;
 
+    logInfo(
+      `リンク先を取得できなかったため（${reasonName}）ツイート本文から要約します: ${tweet.tweetLink}`
+    );
+  }
   // スクレイピング結果がある場合は、それも考慮
-  if (scrapedContent && scrapedContent.content) {
+  else if (scrapedContent && scrapedContent.content) {
     // タイトルとコンテンツを組み合わせる
     const title = scrapedContent.title
       ? `タイトル: ${scrapedContent.title}\n\n`
@@ -140,8 +163,30 @@ export const summarizeTweet = async (
     const siteName = scrapedContent.siteName
       ? `サイト: ${scrapedContent.siteName}\n`
       : "";
-
-    contentToSummarize = `${tweet.content}\n\n${title}${siteName}${scrapedContent.content}`;
+    // 記事以外（動画、ポッドキャストなど）は種類を追加
+    const mediaType =
+      scrapedContent.mediaType && scrapedContent.mediaType !== MediaType.ARTICLE
+        ? `種類: ${MediaTypeNames[scrapedContent.mediaType]}\n`
+        : "";
+    // 著者とタグがあれば追加
+    const authors = scrapedContent.authors?.length
+      ? `著者: ${scrapedContent.authors.join(", ")}\n`
+      : "";
+    const tags = scrapedContent.tags?.length
+      ? `タグ: ${scrapedContent.tags.join(", ")}\n`
+      : "";
+    // 公開日・更新日があれば追加
+    const dates = [
+      scrapedContent.publishDate
+        ? `公開日: ${scrapedContent.publishDate}\n`
+        : "",
+      scrapedContent.modifiedDate &&
+      scrapedContent.modifiedDate !== scrapedContent.publishDate
+        ? `更新日: ${scrapedContent.modifiedDate}\n`
+        : "",
+    ].join("");
+
+    contentToSummarize = `${tweetText}\n\n${title}${mediaType}${siteName}${authors}${dates}${tags}${scrapedContent.content}`;
 
     logInfo(
       `ツイートとスクレイピング結果を組み合わせて要約します: ${tweet.tweetLink}`
@@ -156,6 +201,8 @@ export const summarizeTweet = async (
     original: tweet,
     summary,
     category,
+    mediaType: scrapedContent?.mediaType,
+    failureReason: scrapedContent?.failureReason,
   };
 };
 
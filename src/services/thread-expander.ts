@@ -0,0 +1,286 @@
+/**
+ * スレッド展開モジュール
+ * ツイートのページから投稿者本人によるスレッドの続き（自己返信）と引用ツイートを取り出し、
+ * 元の本文に続けた展開済みの本文を作る
+ */
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import { SourcePlatform } from "../config/constants";
+import { logInfo, logWarn } from "../utils/logger";
+import { TweetData } from "../types";
+import { withPage } from "./browser-pool";
+import { isAllowedByRobots } from "./politeness";
+
+/**
+ * スレッド内の投稿
+ */
+export interface ThreadPost {
+  author: string; // @を除いたアカウント名
+  text: string;
+}
+
+/**
+ * ツイートのページから取り出したスレッドと引用ツイート
+ */
+export interface TweetThread {
+  author: string;
+  text: string;
+  replies: ThreadPost[]; // 投稿者本人によるスレッドの続き（投稿順）
+  quoted?: ThreadPost; // 引用しているツイート
+}
+
+// ツイートのページの描画を待つ時間
+const PAGE_TIMEOUT_MS = 30000;
+
+/**
+ * ツイートのURLからアカウント名とツイートIDを取得
+ * @param url ツイートのURL（x.com / twitter.com の /ユーザー名/status/ID 形式）
+ * @returns アカウント名（i/web/status 形式の場合はnull）とツイートID
+ */
+export const parseTweetUrl = (
+  url: string
+): { account: string | null; statusId: string } | null => {
+  const match = url.match(
+    /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/([A-Za-z0-9_]+)\/status(?:es)?\/(\d+)/
+  );
+  if (!match) {
+    const webMatch = url.match(
+      /^https?:\/\/(?:www\.)?(?:twitter|x)\.com\/i\/(?:web\/)?status\/(\d+)/
+    );
+    return webMatch ? { account: null, statusId: webMatch[1] } : null;
+  }
+  return {
+    account: match[1] === "i" ? null : match[1],
+    statusId: match[2],
+  };
+};
+
+/**
+ * ツイート本文の要素をテキストにする（絵文字の画像は代替テキストにする）
+ */
+const tweetTextOf = ($: any, $el: any): string => {
+  const $clone = $el.clone();
+  $clone.find("img[alt]").each((_: number, img: any) => {
+    $(img).replaceWith($(img).attr("alt") || "");
+  });
+  return $clone.text().trim();
+};
+
+/**
+ * 投稿者名の要素からアカウント名を取得
+ */
+const authorOf = ($: any, $userName: any): string => {
+  const href: string =
+    $userName.find('a[href^="/"]').first().attr("href") || "";
+  return href.slice(1).split("/")[0] || "";
+};
+
+/**
+ * ツイートのページ（ブラウザで描画したHTML）からスレッドと引用ツイートを取り出す
+ * 対象のツイートより後に並ぶ投稿のうち、投稿者本人のものが続く間をスレッドの続きとみなす
+ * @param html ツイートのページのHTML
+ * @param tweetUrl 対象のツイートのURL
+ * @returns スレッドと引用ツイート（対象のツイートが見つからない場合はnull）
+ */
+export const parseTweetPageHtml = (
+  html: string,
+  tweetUrl: string
+): TweetThread | null => {
+  const $ = cheerio.load(html);
+  const parsedUrl = parseTweetUrl(tweetUrl);
+
+  const posts = $('article[data-testid="tweet"]')
+    .map((_: number, article: any) => {
+      const $article = $(article);
+      // 引用ツイートは記事内のリンク要素に入っている
+      const $quote = $article
+        .find('div[role="link"]')
+        .filter(
+          (_: number, el: any) =>
+            $(el).find('[data-testid="tweetText"]').length > 0
+        );
+      const $texts = $article
+        .find('[data-testid="tweetText"]')
+        .filter(
+          (_: number, el: any) => $(el).closest('div[role="link"]').length === 0
+        );
+      const statusHrefs: string[] = $article
+        .find('a[href*="/status/"]')
+        .filter(
+          (_: number, el: any) => $(el).closest('div[role="link"]').length === 0
+        )
+        .map((_: number, el: any) => String($(el).attr("href")))
+        .get();
+
+      return {
+        author: authorOf(
+          $,
+          $article
+            .find('[data-testid="User-Name"]')
+            .filter(
+              (_: number, el: any) =>
+                $(el).closest('div[role="link"]').length === 0
+            )
+            .first()
+        ),
+        text: $texts.length > 0 ? tweetTextOf($, $texts.first()) : "",
+        statusIds: statusHrefs
+          .map((href) => (href.match(/\/status\/(\d+)/) || [])[1])
+          .filter(Boolean),
+        quoted:
+          $quote.length > 0
+            ? {
+                author: authorOf(
+                  $,
+                  $quote.first().find('[data-testid="User-Name"]').first()
+                ),
+                text: tweetTextOf(
+                  $,
+                  $quote.first().find('[data-testid="tweetText"]').first()
+                ),
+              }
+            : undefined,
+      };
+    })
+    .get() as (ThreadPost & { statusIds: string[]; quoted?: ThreadPost })[];
+
+  // 対象のツイートを探す（IDが一致しない場合はURLのアカウントの最初の投稿）
+  let index = parsedUrl
+    ? posts.findIndex((post) => post.statusIds.includes(parsedUrl.statusId))
+    : -1;
+  if (index < 0 && parsedUrl?.account) {
+    const account = parsedUrl.account.toLowerCase();
+    index = posts.findIndex((post) => post.author.toLowerCase() === account);
+  }
+  if (index < 0) {
+    return null;
+  }
+
+  const target = posts[index];
+  const replies: ThreadPost[] = [];
+  for (const post of posts.slice(index + 1)) {
+    if (post.author.toLowerCase() !== target.author.toLowerCase()) {
+      break;
+    }
+    if (post.text) {
+      replies.push({ author: post.author, text: post.text });
+    }
+  }
+
+  return {
+    author: target.author,
+    text: target.text,
+    replies,
+    quoted: target.quoted?.text ? target.quoted : undefined,
+  };
+};
+
+/**
+ * 元の本文にスレッドの続きと引用ツイートを続けた本文を作る
+ * @param content 元の本文
+ * @param replies スレッドの続き
+ * @param quoted 引用ツイート
+ * @returns 展開した本文（続きも引用もない場合はnull）
+ */
+export const formatExpandedContent = (
+  content: string,
+  replies: ThreadPost[],
+  quoted?: ThreadPost
+): string | null => {
+  if (replies.length === 0 && !quoted) {
+    return null;
+  }
+
+  const sections = [content.trim()];
+  if (replies.length > 0) {
+    sections.push(
+      `（スレッドの続き）\n${replies.map((reply) => reply.text).join("\n\n")}`
+    );
+  }
+  if (quoted) {
+    sections.push(
+      `（引用${quoted.author ? `: @${quoted.author}` : ""}）\n${quoted.text}`
+    );
+  }
+  return sections.filter(Boolean).join("\n\n");
+};
+
+/**
+ * ツイートのページをブラウザで描画してHTMLを取得
+ * @param tweetUrl ツイートのURL
+ * @returns ページのHTML
+ */
+const fetchTweetPageHtml = async (tweetUrl: string): Promise<string> => {
+  return withPage(tweetUrl, async (page) => {
+    await page.goto(tweetUrl, {
+      waitUntil: "domcontentloaded",
+      timeout: PAGE_TIMEOUT_MS,
+    });
+    await page.waitForSelector('article[data-testid="tweet"]', {
+      timeout: PAGE_TIMEOUT_MS,
+    });
+    return page.content();
+  });
+};
+
+/**
+ * ツイートのスレッドの続きと引用ツイートを展開する
+ * X（旧Twitter）のツイートのみ対象とし、ページを取得できない場合はnullを返す
+ * @param tweet ツイートデータ
+ * @returns 展開した本文（展開するものがない場合はnull）
+ */
+export const expandTweet = async (tweet: TweetData): Promise<string | null> => {
+  const platform = tweet.platform || SourcePlatform.TWITTER;
+  const parsedUrl = parseTweetUrl(tweet.tweetLink);
+  if (platform !== SourcePlatform.TWITTER || !parsedUrl) {
+    return null;
+  }
+
+  const pageUrl = parsedUrl.account
+    ? `https://x.com/${parsedUrl.account}/status/${parsedUrl.statusId}`
+    : `https://x.com/i/status/${parsedUrl.statusId}`;
+  if (!(await isAllowedByRobots(pageUrl))) {
+    logInfo(
+      `robots.txtで禁止されているためスレッドを展開しません: ${tweet.tweetLink}`
+    );
+    return null;
+  }
+
+  try {
+    logInfo(`スレッドと引用ツイートを展開します: ${tweet.tweetLink}`);
+    const thread = parseTweetPageHtml(
+      await fetchTweetPageHtml(pageUrl),
+      pageUrl
+    );
+    if (!thread) {
+      logWarn(`ツイートのページから投稿を見つけられませんでした: ${pageUrl}`);
+      return null;
+    }
+
+    const expanded = formatExpandedContent(
+      tweet.content || thread.text,
+      thread.replies,
+      thread.quoted
+    );
+    logInfo(
+      expanded
+        ? `スレッドの続き${thread.replies.length}件${
+            thread.quoted ? "と引用ツイート" : ""
+          }を展開しました: ${tweet.tweetLink}`
+        : `展開するスレッドの続きや引用ツイートはありませんでした: ${tweet.tweetLink}`
+    );
+    return expanded;
+  } catch (error) {
+    logWarn(`スレッドの展開に失敗しました: ${tweet.tweetLink}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+export default {
+  parseTweetUrl,
+  parseTweetPageHtml,
+  formatExpandedContent,
+  expandTweet,
+};
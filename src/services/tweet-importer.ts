@@ -0,0 +1,60 @@
+/**
+ * ツイート取り込み共通処理
+ * 各取得元で読み込んだデータを日付範囲で絞り込んでデータベースに保存
+ */
+import { isDateInRange } from "../utils/date";
+import { logInfo } from "../utils/logger";
+import { DateRange, TweetData } from "../types";
+import { saveTweet } from "../db";
+
+/**
+ * ツイートデータを日付範囲で絞り込む
+ * @param tweets ツイートデータ
+ * @param dateRange 日付範囲（省略時は全件）
+ * @returns 範囲内のツイートデータ
+ */
+export const filterByDateRange = (
+  tweets: TweetData[],
+  dateRange?: DateRange
+): TweetData[] => {
+  if (!dateRange) {
+    return tweets;
+  }
+  return tweets.filter((tweet) =>
+    isDateInRange(tweet.tweetDate, dateRange.startDate, dateRange.endDate)
+  );
+};
+
+/**
+ * 読み込んだツイートデータをデータベースに取り込む
+ * @param tweets 読み込んだツイートデータ
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだツイートデータ
+ */
+export const saveImportedTweets = async (
+  tweets: TweetData[],
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  const targets = filterByDateRange(tweets, dateRange);
+
+  for (const tweet of targets) {
+    await saveTweet({
+      tweetDate: tweet.tweetDate,
+      account: tweet.account,
+      tweetLink: tweet.tweetLink,
+      contentLink: tweet.contentLink,
+      content: tweet.content,
+      expandedContent: tweet.expandedContent,
+      category: "", // カテゴリは後で分類処理で設定
+      platform: tweet.platform,
+    });
+  }
+
+  logInfo(`${targets.length}件のツイートをデータベースに取り込みました`);
+  return targets;
+};
+
+export default {
+  filterByDateRange,
+  saveImportedTweets,
+};
@@ -0,0 +1,68 @@
+/**
+ * ツイート取得元レジストリ
+ * パイプラインに投入するツイートの取得元を名前で選択できるようにする
+ */
+import { TweetSource } from "../types";
+import { sheetsTweetSource } from "./sheets";
+import { twitterArchiveTweetSource } from "./twitter-archive";
+import { fileTweetSource } from "./file-source";
+import { feedTweetSource } from "./feed";
+import { mastodonTweetSource } from "./mastodon";
+import { blueskyTweetSource } from "./bluesky";
+
+// デフォルトの取得元
+export const DEFAULT_TWEET_SOURCE = sheetsTweetSource.name;
+
+// 登録済みの取得元
+const tweetSources = new Map<string, TweetSource>();
+
+/**
+ * 取得元を登録する
+ * @param source 登録するTweetSource
+ */
+export const registerTweetSource = (source: TweetSource): void => {
+  if (tweetSources.has(source.name)) {
+    throw new Error(`取得元 ${source.name} は既に登録されています`);
+  }
+  tweetSources.set(source.name, source);
+};
+
+/**
+ * 名前から取得元を取得する
+ * @param name 取得元の名前
+ * @returns TweetSource
+ */
+export const getTweetSource = (
+  name: string = DEFAULT_TWEET_SOURCE
+): TweetSource => {
+  const source = tweetSources.get(name);
+  if (!source) {
+    throw new Error(
+      `取得元 ${name} は存在しません（利用可能: ${listTweetSources()
+        .map((s) => s.name)
+        .join(", ")}）`
+    );
+  }
+  return source;
+};
+
+/**
+ * 登録済みの取得元の一覧を取得する
+ */
+export const listTweetSources = (): TweetSource[] => {
+  return [...tweetSources.values()];
+};
+
+// 組み込みの取得元を登録
+registerTweetSource(sheetsTweetSource);
+registerTweetSource(twitterArchiveTweetSource);
+registerTweetSource(fileTweetSource);
+registerTweetSource(feedTweetSource);
+registerTweetSource(mastodonTweetSource);
+registerTweetSource(blueskyTweetSource);
+
+export default {
+  registerTweetSource,
+  getTweetSource,
+  listTweetSources,
+};
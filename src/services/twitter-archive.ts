@@ -0,0 +1,212 @@
+/**
+ * Twitterアーカイブ取り込みモジュール
+ * 公式のデータアーカイブ（data/like.js, data/bookmark.js）からツイートデータを取得
+ */
+import fs from "fs";
+import path from "path";
+import AdmZip from "adm-zip";
+import { logError, logInfo } from "../utils/logger";
+import { DateRange, TweetData, TweetSource } from "../types";
+import { SourcePlatform } from "../config/constants";
+import { filterByDateRange, saveImportedTweets } from "./tweet-importer";
+
+// Snowflake IDのエポック（2010-11-04T01:42:54.657Z）
+const TWITTER_EPOCH_MS = 1288834974657;
+
+// 取り込み対象のアーカイブファイル（分割ファイル like-part1.js なども対象）
+const ARCHIVE_FILE_PATTERN = /(?:^|\/)data\/(like|bookmark)(?:-part\d+)?\.js$/;
+
+/**
+ * アーカイブ内の1エントリ（likeまたはbookmark）
+ */
+interface ArchiveEntry {
+  tweetId: string;
+  fullText?: string;
+  expandedUrl?: string;
+}
+
+/**
+ * アーカイブのJSファイルの配列の要素（like.js は like、bookmark.js は bookmark を持つ）
+ */
+interface ArchiveItem {
+  like?: ArchiveEntry;
+  bookmark?: ArchiveEntry;
+}
+
+/**
+ * アーカイブ（展開済みディレクトリまたはzip）から対象ファイルの内容を読み込む
+ * @param inputPath アーカイブのパス
+ * @returns ファイル名と内容の配列
+ */
+const readArchiveFiles = (
+  inputPath: string
+): { name: string; content: string }[] => {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`アーカイブが見つかりません: ${inputPath}`);
+  }
+
+  // zipファイルの場合はエントリを直接読み込む
+  if (fs.statSync(inputPath).isFile()) {
+    const zip = new AdmZip(inputPath);
+    return zip
+      .getEntries()
+      .filter((entry) => ARCHIVE_FILE_PATTERN.test(entry.entryName))
+      .map((entry) => ({
+        name: entry.entryName,
+        content: entry.getData().toString("utf-8"),
+      }));
+  }
+
+  // 展開済みディレクトリの場合は data/ 配下を探す
+  const dataDir = path.join(inputPath, "data");
+  if (!fs.existsSync(dataDir)) {
+    throw new Error(`アーカイブに data ディレクトリがありません: ${inputPath}`);
+  }
+
+  return fs
+    .readdirSync(dataDir)
+    .filter((file) => ARCHIVE_FILE_PATTERN.test(`data/${file}`))
+    .map((file) => ({
+      name: `data/${file}`,
+      content: fs.readFileSync(path.join(dataDir, file), "utf-8"),
+    }));
+};
+
+/**
+ * アーカイブのJSファイル（window.YTD.like.part0 = [...]）をパース
+ * @param content ファイルの内容
+ * @returns エントリの配列
+ */
+export const parseArchiveJs = (content: string): ArchiveEntry[] => {
+  // 先頭の代入式を取り除いてJSONとして解釈
+  const jsonStart = content.indexOf("[");
+  if (jsonStart < 0) {
+    throw new Error("アーカイブファイルの形式が不正です");
+  }
+
+  const items: ArchiveItem[] = JSON.parse(content.substring(jsonStart));
+  return items
+    .map((item) => item.like || item.bookmark)
+    .filter((entry): entry is ArchiveEntry => !!entry && !!entry.tweetId);
+};
+
+/**
+ * Snowflake形式のツイートIDから投稿日時を算出
+ * アーカイブにはいいね・ブックマークした日時が含まれないため、取り込むツイートの日時は投稿日時になる
+ * @param tweetId ツイートID
+ * @returns 投稿日時（Snowflake以前のIDの場合はエポック）
+ */
+export const getTweetDateFromId = (tweetId: string): Date => {
+  try {
+    const timestamp = Number(BigInt(tweetId) >> BigInt(22)) + TWITTER_EPOCH_MS;
+    return new Date(Math.max(timestamp, TWITTER_EPOCH_MS));
+  } catch {
+    return new Date(TWITTER_EPOCH_MS);
+  }
+};
+
+/**
+ * テキストに含まれるURLを抽出
+ * @param text ツイート本文
+ * @returns URLの配列
+ */
+export const extractUrls = (text: string): string[] => {
+  return text.match(/https?:\/\/[^\s"'<>]+/g) || [];
+};
+
+/**
+ * アーカイブのエントリをTweetDataに変換
+ * @param entry アーカイブのエントリ
+ * @returns ツイートデータ
+ */
+const archiveEntryToTweetData = (entry: ArchiveEntry): TweetData => {
+  const tweetLink =
+    entry.expandedUrl || `https://twitter.com/i/web/status/${entry.tweetId}`;
+
+  // URLにアカウント名が含まれていれば使用（i/web/status形式の場合は不明）
+  const accountMatch = tweetLink.match(
+    /(?:twitter|x)\.com\/([A-Za-z0-9_]+)\/status\//
+  );
+  const account =
+    accountMatch && accountMatch[1] !== "i" ? accountMatch[1] : "unknown";
+
+  const content = entry.fullText || "";
+
+  return {
+    tweetDate: getTweetDateFromId(entry.tweetId),
+    account,
+    tweetLink,
+    contentLink: extractUrls(content)[0] || null,
+    content,
+    platform: SourcePlatform.TWITTER,
+  };
+};
+
+/**
+ * アーカイブからツイートデータを読み込む
+ * @param inputPath アーカイブのパス（展開済みディレクトリまたはzip）
+ * @returns ツイートデータの配列（同じツイートは1件にまとめる）
+ */
+export const loadTwitterArchive = (inputPath: string): TweetData[] => {
+  const files = readArchiveFiles(inputPath);
+  if (files.length === 0) {
+    logInfo(
+      `アーカイブに like.js / bookmark.js が見つかりませんでした: ${inputPath}`
+    );
+    return [];
+  }
+
+  const tweets = new Map<string, TweetData>();
+  for (const file of files) {
+    try {
+      const entries = parseArchiveJs(file.content);
+      logInfo(`${file.name} から${entries.length}件のエントリを読み込みました`);
+
+      for (const entry of entries) {
+        const tweet = archiveEntryToTweetData(entry);
+        if (!tweets.has(tweet.tweetLink)) {
+          tweets.set(tweet.tweetLink, tweet);
+        }
+      }
+    } catch (error) {
+      logError(`アーカイブファイルの解析に失敗しました: ${file.name}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return [...tweets.values()];
+};
+
+/**
+ * アーカイブのツイートをデータベースに取り込む
+ * @param inputPath アーカイブのパス
+ * @param dateRange 取り込み対象の日付範囲（省略時は全件）
+ * @returns 取り込んだツイートデータ
+ */
+export const importTwitterArchive = async (
+  inputPath: string,
+  dateRange?: DateRange
+): Promise<TweetData[]> => {
+  return saveImportedTweets(loadTwitterArchive(inputPath), dateRange);
+};
+
+/**
+ * Twitterアーカイブを取得元とするTweetSource
+ */
+export const twitterArchiveTweetSource: TweetSource = {
+  name: "twitter-archive",
+  description: "Twitter公式データアーカイブ（--input にディレクトリまたはzip）",
+  fetchTweets: async (range, options) => {
+    if (!options?.input) {
+      throw new Error("--input にアーカイブのパスを指定してください");
+    }
+    return filterByDateRange(loadTwitterArchive(options.input), range);
+  },
+};
+
+export default {
+  loadTwitterArchive,
+  importTwitterArchive,
+  twitterArchiveTweetSource,
+};
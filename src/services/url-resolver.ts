@@ -0,0 +1,261 @@
+/**
+ * URL解決モジュール
+ * 短縮URL（t.coなど）のリダイレクトを追跡し、正規URL（canonical）を求める
+ */
+import axios from "axios";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import { config } from "../config";
+import { SCRAPER_SETTINGS, URL_SETTINGS } from "../config/constants";
+import { logInfo, logWarn } from "../utils/logger";
+import { isAllowedByRobots, withHostLimit } from "./politeness";
+
+/**
+ * URL解決の結果
+ */
+export interface ResolvedUrl {
+  originalUrl: string;
+  finalUrl: string; // リダイレクト後のURL（トラッキングパラメータ除去済み）
+  canonicalUrl: string; // 重複排除に使う正規URL
+  redirectChain: string[]; // 元のURLから最終URLまでの経路
+  robotsDisallowed?: boolean; // 途中または最終URLがrobots.txtで禁止されていたため追跡を止めた
+  // 最終URLのレスポンス（スクレイピングで取得し直さないよう、最初の呼び出し元にのみ渡す）
+  response?: { url: string; contentType: string; data: Buffer };
+}
+
+// 実行中に解決したURLのキャッシュ（同じURLを何度も取得しない）
+const resolvedUrlCache = new Map<string, Promise<ResolvedUrl>>();
+
+/**
+ * URLからトラッキングパラメータ（utm_*、fbclidなど）とフラグメントを取り除く
+ * @param url 対象のURL
+ * @returns 正規化したURL（URLとして解釈できない場合はそのまま）
+ */
+export const stripTrackingParams = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      const lowerKey = key.toLowerCase();
+      if (
+        URL_SETTINGS.TRACKING_PARAMS.includes(lowerKey) ||
+        URL_SETTINGS.TRACKING_PARAM_PREFIXES.some((prefix) =>
+          lowerKey.startsWith(prefix)
+        )
+      ) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * HTMLからリダイレクト先を読み取る
+ * t.co はブラウザからのアクセスに対して meta refresh や location.replace で転送するため
+ * @param html レスポンスのHTML
+ * @returns リダイレクト先のURL（見つからない場合はnull）
+ */
+const findHtmlRedirect = (html: string): string | null => {
+  const $ = cheerio.load(html);
+  const refresh = $('meta[http-equiv="refresh" i]').attr("content") || "";
+  const refreshMatch = refresh.match(/url\s*=\s*['"]?([^'"\s]+)/i);
+  if (refreshMatch) {
+    return refreshMatch[1];
+  }
+
+  const scriptMatch = html.match(/location\.replace\(\s*["']([^"']+)["']\s*\)/);
+  return scriptMatch ? scriptMatch[1].replace(/\\\//g, "/") : null;
+};
+
+/**
+ * URLのパスとクエリに含まれる語（3文字以上の英数字）
+ */
+const getPathTokens = (url: URL): Set<string> => {
+  return new Set(
+    `${url.pathname} ${url.search}`
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length >= 3)
+  );
+};
+
+/**
+ * HTMLから正規URL（link rel="canonical" または og:url）を読み取る
+ * サイト全体で同じ値になっている場合（SPAのトップページを指すなど）に別の記事をまとめてしまわないよう、
+ * 別のホスト、トップページ、パスに共通する語がないURLは正規URLとみなさない
+ * @param html ページのHTML
+ * @param baseUrl 相対URLの基準となるURL（リダイレクト後のURL）
+ * @returns 正規URL（見つからない、または信頼できない場合はnull）
+ */
+const findCanonicalUrl = (html: string, baseUrl: string): string | null => {
+  const $ = cheerio.load(html);
+  const candidate =
+    $('link[rel="canonical"]').attr("href") ||
+    $('meta[property="og:url"]').attr("content");
+  if (!candidate) {
+    return null;
+  }
+
+  let canonical: URL;
+  let base: URL;
+  try {
+    canonical = new URL(candidate.trim(), baseUrl);
+    base = new URL(baseUrl);
+  } catch {
+    return null;
+  }
+  if (canonical.protocol !== "http:" && canonical.protocol !== "https:") {
+    return null;
+  }
+
+  const normalizeHost = (hostname: string) => hostname.replace(/^www\./, "");
+  if (normalizeHost(canonical.hostname) !== normalizeHost(base.hostname)) {
+    return null;
+  }
+
+  // トップページ自体でなければ、トップページを指す正規URLは使わない
+  const isRoot = (url: URL) => url.pathname === "/" && !url.search;
+  if (isRoot(base)) {
+    return canonical.toString();
+  }
+  if (isRoot(canonical)) {
+    return null;
+  }
+
+  const baseTokens = getPathTokens(base);
+  const isRelated = [...getPathTokens(canonical)].some((token) =>
+    baseTokens.has(token)
+  );
+  return isRelated ? canonical.toString() : null;
+};
+
+/**
+ * リダイレクトを1件ずつ追跡してURLを解決
+ * 各URLはrobots.txtで許可されている場合のみ、ホストごとのアクセス間隔を守って取得する
+ * @param url 解決するURL
+ * @returns URL解決の結果（最終URLのレスポンスを含む）
+ */
+const followRedirects = async (url: string): Promise<ResolvedUrl> => {
+  const redirectChain = [url];
+  let currentUrl = url;
+
+  for (let i = 0; i <= URL_SETTINGS.MAX_REDIRECTS; i++) {
+    // robots.txtで禁止されているURLは取得せず、ここを最終URLとする
+    if (!(await isAllowedByRobots(currentUrl))) {
+      const finalUrl = stripTrackingParams(currentUrl);
+      return {
+        originalUrl: url,
+        finalUrl,
+        canonicalUrl: finalUrl,
+        redirectChain,
+        robotsDisallowed: true,
+      };
+    }
+
+    const requestUrl = currentUrl;
+    const response = await withHostLimit(requestUrl, () =>
+      axios.get<ArrayBuffer>(requestUrl, {
+        maxRedirects: 0,
+        responseType: "arraybuffer",
+        timeout: URL_SETTINGS.TIMEOUT_MS,
+        maxContentLength: SCRAPER_SETTINGS.MAX_RESPONSE_BYTES,
+        headers: {
+          "User-Agent": config.scraper.httpUserAgent,
+          Accept: "text/html,application/xhtml+xml,application/pdf",
+        },
+        validateStatus: () => true,
+      })
+    );
+    const contentType = String(response.headers["content-type"] || "");
+    const data = Buffer.from(response.data || []);
+    const html = contentType.includes("html") ? data.toString("utf-8") : null;
+
+    // HTTPリダイレクト、またはHTMLによる転送
+    const location =
+      response.status >= 300 && response.status < 400
+        ? response.headers.location
+        : html !== null
+        ? findHtmlRedirect(html)
+        : null;
+
+    if (location) {
+      currentUrl = new URL(location, currentUrl).toString();
+      if (redirectChain.includes(currentUrl)) {
+        throw new Error(`リダイレクトがループしています: ${currentUrl}`);
+      }
+      redirectChain.push(currentUrl);
+      continue;
+    }
+
+    const finalUrl = stripTrackingParams(currentUrl);
+    const isSuccess = response.status < 400;
+    const canonicalUrl =
+      isSuccess && html !== null ? findCanonicalUrl(html, currentUrl) : null;
+
+    return {
+      originalUrl: url,
+      finalUrl,
+      canonicalUrl: canonicalUrl ? stripTrackingParams(canonicalUrl) : finalUrl,
+      redirectChain,
+      // エラーのレスポンスはスクレイピング側で取得し直して理由を判定する
+      response:
+        isSuccess && data.length > 0
+          ? { url: currentUrl, contentType, data }
+          : undefined,
+    };
+  }
+
+  throw new Error(
+    `リダイレクトの回数が上限（${URL_SETTINGS.MAX_REDIRECTS}回）を超えました`
+  );
+};
+
+/**
+ * URLを解決する（リダイレクトの追跡、正規URLの取得、トラッキングパラメータの除去）
+ * 解決に失敗した場合は元のURLからトラッキングパラメータを除いたものを正規URLとする
+ * 最終URLのレスポンスは最初の呼び出し元にのみ返し、キャッシュには残さない
+ * @param url 解決するURL
+ * @returns URL解決の結果
+ */
+export const resolveUrl = (url: string): Promise<ResolvedUrl> => {
+  const cached = resolvedUrlCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const resolving = followRedirects(url)
+    .then((resolved) => {
+      if (resolved.redirectChain.length > 1 || resolved.canonicalUrl !== url) {
+        logInfo(`URLを解決しました: ${url} → ${resolved.canonicalUrl}`, {
+          redirectChain: resolved.redirectChain,
+        });
+      }
+      return resolved;
+    })
+    .catch((error): ResolvedUrl => {
+      logWarn(`URLの解決に失敗したため元のURLを使用します: ${url}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      const strippedUrl = stripTrackingParams(url);
+      return {
+        originalUrl: url,
+        finalUrl: strippedUrl,
+        canonicalUrl: strippedUrl,
+        redirectChain: [url],
+      };
+    });
+
+  resolvedUrlCache.set(
+    url,
+    resolving.then(({ response, ...resolved }) => resolved)
+  );
+  return resolving;
+};
+
+export default {
+  stripTrackingParams,
+  resolveUrl,
+};
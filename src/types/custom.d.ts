@@ -23,3 +23,26 @@ declare module "kuroshiro-analyzer-kuromoji" {
     constructor(options?: { dictPath?: string });
   }
 }
+
+// index.js はデバッグ用のテストPDFを読み込もうとするため、lib/pdf-parse.js を直接使う
+declare module "pdf-parse/lib/pdf-parse.js" {
+  interface PdfParseResult {
+    numpages: number;
+    numrender: number;
+    info: Record<string, any> | null;
+    metadata: { get(name: string): string | null } | null;
+    text: string;
+    version: string | null;
+  }
+
+  interface PdfParseOptions {
+    pagerender?: (pageData: any) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  export default function pdfParse(
+    dataBuffer: Buffer,
+    options?: PdfParseOptions
+  ): Promise<PdfParseResult>;
+}
@@ -1,7 +1,15 @@
 /**
  * アプリケーション全体で使用する型定義
  */
-import { ContentCategory, LogLevel } from "../config/constants";
+import {
+  ContentCategory,
+  LogLevel,
+  MediaType,
+  OtherSubCategory,
+  ScrapeFailureReason,
+  SourcePlatform,
+  TechSubCategory,
+} from "../config/constants";
 
 /**
  * ツイートデータの型
@@ -13,12 +21,40 @@ export interface TweetData {
   tweetLink: string;
   contentLink?: string | null;
   content: string;
+  expandedContent?: string | null; // スレッドの続きと引用ツイートを含めた本文（展開した場合のみ）
   category?: ContentCategory;
+  platform?: SourcePlatform;
   processed?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * 取得対象の日付範囲
+ */
+export interface DateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * ツイート取得元に渡すオプション（CLI引数をそのまま渡す）
+ */
+export type TweetSourceOptions = Record<string, any>;
+
+/**
+ * ツイート取得元（スプレッドシート、エクスポートファイル、フィードなど）
+ * fetchTweets は日付範囲内のデータを返すだけで、データベースへの保存は呼び出し元で行う
+ */
+export interface TweetSource {
+  name: string;
+  description: string;
+  fetchTweets: (
+    range: DateRange,
+    options?: TweetSourceOptions
+  ) => Promise<TweetData[]>;
+}
+
 /**
  * 要約されたコンテンツの型
  */
@@ -27,6 +63,8 @@ export interface SummarizedContent {
   summary: string;
   category: ContentCategory;
   subCategory?: string; // サブカテゴリを追加
+  mediaType?: MediaType; // リンク先の種類（動画なら「この動画では」と紹介する）
+  failureReason?: ScrapeFailureReason; // リンク先を取得できなかった理由（有料記事であることなどを台本で触れる）
 }
 
 /**
@@ -54,6 +92,7 @@ export interface PodcastEpisode {
   fileLocation: string;
   duration: number;
   generatedAt?: Date;
+  cutoffAt?: Date | null;
   tweets: string; // JSON配列文字列
 }
 
@@ -84,11 +123,23 @@ export interface SpreadsheetRow {
  */
 export interface ScrapedContent {
   url: string;
+  canonicalUrl?: string; // 重複排除に使う正規URL
+  redirectChain?: string[]; // 元のURLから取得したURLまでのリダイレクトの経路
   title?: string;
-  content: string;
+  content: string; // 本文（段落は空行、見出しは #、コードは ``` で区切る）
+  wordCount?: number; // 本文の語数（日本語などは1文字を1語として数える）
   siteName?: string;
+  description?: string; // ページの説明文（JSON-LD、OpenGraph、Twitterカードなど）
   publishDate?: string;
+  modifiedDate?: string; // 更新日
+  language?: string; // ページの言語（ja、en-US など）
+  imageUrl?: string; // 代表画像のURL
+  authors?: string[]; // 著者（論文の著者、記事の投稿者、リポジトリの所有者など）
+  tags?: string[]; // タグ（記事のタグやキーワード、リポジトリのトピック、論文の分野など）
+  mediaType?: MediaType; // コンテンツの種類（記事、動画、ポッドキャスト、PDFなどの資料）
+  fetchedAt?: Date; // キャッシュから取得した場合の取得日時
   error?: string;
+  failureReason?: ScrapeFailureReason; // 取得できなかった理由（有料記事の場合は見えている冒頭部分が content に入る）
 }
 
 /**
@@ -104,7 +155,7 @@ export interface ClassificationResult {
  * サブカテゴリ分類結果の型
  */
 export interface SubCategoryClassificationResult {
-  subCategory: string;
+  subCategory: TechSubCategory | OtherSubCategory;
   confidence: number;
   reasoning?: string;
 }
@@ -114,7 +165,9 @@ export interface SubCategoryClassificationResult {
  */
 export interface FullClassificationResult {
   category: ContentCategory;
-  subCategory: string;
+  subCategory: TechSubCategory | OtherSubCategory;
+  confidence: number;
+  reasoning?: string;
 }
 
 /**
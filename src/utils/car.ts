@@ -0,0 +1,263 @@
+/**
+ * CAR（Content Addressable aRchive）読み込みユーティリティ
+ * Blueskyのリポジトリエクスポート（CAR v1 + DAG-CBOR）からレコードを取り出す
+ */
+
+// DAG-CBORのマルチコーデック番号
+const DAG_CBOR_CODEC = 0x71;
+
+// CIDを表すCBORタグ
+const CID_TAG = 42;
+
+/**
+ * デコードしたCBORの値（CIDは { $link: "<16進数>" } のマップになる）
+ */
+export type CborValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Buffer
+  | CborValue[]
+  | { [key: string]: CborValue };
+
+/**
+ * CBORの値がマップかどうか
+ * @param value CBORの値
+ */
+const isCborMap = (value: unknown): value is { [key: string]: CborValue } => {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value)
+  );
+};
+
+/**
+ * バイト列を順に読み進めるためのカーソル
+ */
+interface Cursor {
+  bytes: Buffer;
+  pos: number;
+}
+
+/**
+ * 符号なしLEB128形式の可変長整数を読み込む
+ */
+const readVarint = (cursor: Cursor): number => {
+  let value = 0;
+  let shift = 0;
+  while (cursor.pos < cursor.bytes.length) {
+    const byte = cursor.bytes[cursor.pos++];
+    value += (byte & 0x7f) * Math.pow(2, shift);
+    if ((byte & 0x80) === 0) {
+      return value;
+    }
+    shift += 7;
+  }
+  throw new Error("可変長整数が途中で終わっています");
+};
+
+/**
+ * CBORの引数（長さや値）を読み込む
+ */
+const readCborArgument = (cursor: Cursor, info: number): number => {
+  if (info < 24) {
+    return info;
+  }
+  const { bytes } = cursor;
+  let value: number;
+  switch (info) {
+    case 24:
+      value = bytes.readUInt8(cursor.pos);
+      cursor.pos += 1;
+      return value;
+    case 25:
+      value = bytes.readUInt16BE(cursor.pos);
+      cursor.pos += 2;
+      return value;
+    case 26:
+      value = bytes.readUInt32BE(cursor.pos);
+      cursor.pos += 4;
+      return value;
+    case 27:
+      value = Number(bytes.readBigUInt64BE(cursor.pos));
+      cursor.pos += 8;
+      return value;
+    default:
+      throw new Error(`未対応のCBOR引数です: ${info}`);
+  }
+};
+
+/**
+ * CBORの値を1つ読み込む（DAG-CBORで使われる範囲のみ対応）
+ * CIDは { $link: "<16進数>" } として返す
+ */
+const readCborValue = (cursor: Cursor): CborValue => {
+  const initial = cursor.bytes[cursor.pos++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  switch (major) {
+    case 0:
+      return readCborArgument(cursor, info);
+    case 1:
+      return -1 - readCborArgument(cursor, info);
+    case 2: {
+      const length = readCborArgument(cursor, info);
+      const value = cursor.bytes.subarray(cursor.pos, cursor.pos + length);
+      cursor.pos += length;
+      return value;
+    }
+    case 3: {
+      const length = readCborArgument(cursor, info);
+      const value = cursor.bytes.toString(
+        "utf-8",
+        cursor.pos,
+        cursor.pos + length
+      );
+      cursor.pos += length;
+      return value;
+    }
+    case 4: {
+      const length = readCborArgument(cursor, info);
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(readCborValue(cursor));
+      }
+      return items;
+    }
+    case 5: {
+      const length = readCborArgument(cursor, info);
+      const map: { [key: string]: CborValue } = {};
+      for (let i = 0; i < length; i++) {
+        const key = readCborValue(cursor);
+        map[String(key)] = readCborValue(cursor);
+      }
+      return map;
+    }
+    case 6: {
+      const tag = readCborArgument(cursor, info);
+      const value = readCborValue(cursor);
+      if (tag === CID_TAG && Buffer.isBuffer(value)) {
+        // 先頭の0x00（multibaseの識別子）を除いて16進数で保持
+        return { $link: value.subarray(1).toString("hex") };
+      }
+      return value;
+    }
+    case 7:
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+        case 23:
+          return null;
+        case 25: {
+          // 半精度浮動小数点数
+          const half = cursor.bytes.readUInt16BE(cursor.pos);
+          cursor.pos += 2;
+          const exponent = (half >> 10) & 0x1f;
+          const fraction = half & 0x3ff;
+          const sign = half & 0x8000 ? -1 : 1;
+          if (exponent === 0) {
+            return sign * Math.pow(2, -14) * (fraction / 1024);
+          }
+          if (exponent === 0x1f) {
+            return fraction ? NaN : sign * Infinity;
+          }
+          return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+        }
+        case 26: {
+          const value = cursor.bytes.readFloatBE(cursor.pos);
+          cursor.pos += 4;
+          return value;
+        }
+        case 27: {
+          const value = cursor.bytes.readDoubleBE(cursor.pos);
+          cursor.pos += 8;
+          return value;
+        }
+        default:
+          throw new Error(`未対応のCBOR値です: ${info}`);
+      }
+    default:
+      throw new Error(`未対応のCBOR型です: ${major}`);
+  }
+};
+
+/**
+ * CBORのバイト列をデコード
+ * @param bytes CBORのバイト列
+ * @returns デコードした値
+ */
+export const decodeCbor = (bytes: Buffer): CborValue => {
+  return readCborValue({ bytes, pos: 0 });
+};
+
+/**
+ * CIDを読み込み、コーデック番号を返す
+ */
+const readCidCodec = (cursor: Cursor): number => {
+  // CIDv0（sha2-256のマルチハッシュのみ、常にdag-pb）
+  if (
+    cursor.bytes[cursor.pos] === 0x12 &&
+    cursor.bytes[cursor.pos + 1] === 0x20
+  ) {
+    cursor.pos += 34;
+    return 0x70;
+  }
+
+  readVarint(cursor); // バージョン
+  const codec = readVarint(cursor);
+  readVarint(cursor); // ハッシュ関数
+  const digestLength = readVarint(cursor);
+  cursor.pos += digestLength;
+  return codec;
+};
+
+/**
+ * CAR v1ファイルからDAG-CBORのブロックをすべてデコードして返す
+ * デコードできないブロックは読み飛ばす
+ * @param bytes CARファイルの内容
+ * @returns デコードしたブロックの配列
+ */
+export const readCarBlocks = (bytes: Buffer): CborValue[] => {
+  const cursor: Cursor = { bytes, pos: 0 };
+
+  // ヘッダー
+  const headerLength = readVarint(cursor);
+  const header = decodeCbor(
+    bytes.subarray(cursor.pos, cursor.pos + headerLength)
+  );
+  if (!isCborMap(header) || header.version !== 1) {
+    throw new Error("CAR v1 形式ではありません");
+  }
+  cursor.pos += headerLength;
+
+  // ブロック
+  const blocks: CborValue[] = [];
+  while (cursor.pos < bytes.length) {
+    const sectionLength = readVarint(cursor);
+    const sectionEnd = cursor.pos + sectionLength;
+    const codec = readCidCodec(cursor);
+
+    if (codec === DAG_CBOR_CODEC) {
+      try {
+        blocks.push(decodeCbor(bytes.subarray(cursor.pos, sectionEnd)));
+      } catch {
+        // 壊れたブロックは無視する
+      }
+    }
+    cursor.pos = sectionEnd;
+  }
+
+  return blocks;
+};
+
+export default {
+  decodeCbor,
+  readCarBlocks,
+};
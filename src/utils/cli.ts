@@ -53,14 +53,9 @@ export function parseArgs(): CommandResult {
       if (eqIdx >= 0) {
         // --key=value 形式
         const key = arg.substring(2, eqIdx);
-        const value = arg.substring(eqIdx + 1);
-
-        // カンマ区切りの値は配列に変換
-        if (value.includes(",")) {
-          parsedArgs[key] = value.split(",").map((v) => v.trim());
-        } else {
-          parsedArgs[key] = value;
-        }
+        // カンマ区切りの値の配列への変換は array 型のオプションのみで行う
+        // （URLやメモなど、カンマを含む文字列をそのまま受け取るため）
+        parsedArgs[key] = arg.substring(eqIdx + 1);
       } else {
         // --key 形式はフラグオプションとして扱う
         parsedArgs[arg.substring(2)] = true;
@@ -0,0 +1,212 @@
+/**
+ * 列マッピングユーティリティ
+ * 表形式のデータ（CSV、スプレッドシートなど）の列をTweetDataの項目に対応付ける
+ */
+import { SHEET_SETTINGS } from "../config/constants";
+import { TweetData } from "../types";
+import { parseDate } from "./date";
+
+/**
+ * 列に対応付けるTweetDataの項目
+ */
+export type TweetField =
+  | "tweetDate"
+  | "account"
+  | "contentLink"
+  | "tweetLink"
+  | "content";
+
+export const TWEET_FIELDS: TweetField[] = [
+  "tweetDate",
+  "account",
+  "contentLink",
+  "tweetLink",
+  "content",
+];
+
+/**
+ * 列マッピング（ヘッダー名または0始まりの列番号）
+ */
+export type ColumnMapping = Partial<Record<TweetField, string | number>>;
+
+/**
+ * 項目ごとのヘッダー名の別名
+ */
+export type HeaderAliases = Partial<Record<TweetField, string[]>>;
+
+/**
+ * 列番号に解決済みの列マッピング
+ */
+export type ResolvedColumns = Partial<Record<TweetField, number>>;
+
+// IFTTT連携スプレッドシートの列配置（A〜E列）
+export const DEFAULT_COLUMN_INDEXES: ResolvedColumns = {
+  tweetDate: SHEET_SETTINGS.DATE_COL_INDEX,
+  account: SHEET_SETTINGS.ACCOUNT_COL_INDEX,
+  contentLink: SHEET_SETTINGS.CONTENT_LINK_COL_INDEX,
+  tweetLink: SHEET_SETTINGS.TWEET_LINK_COL_INDEX,
+  content: SHEET_SETTINGS.CONTENT_COL_INDEX,
+};
+
+/**
+ * 「項目=列」形式の指定を列マッピングに変換
+ * 例: ["tweetDate=Created At", "account=2"]
+ * @param spec 列マッピングの指定（カンマ区切りの文字列または配列）
+ * @returns 列マッピング
+ */
+export const parseColumnMapping = (spec?: string | string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  if (!spec) {
+    return mapping;
+  }
+
+  const entries = Array.isArray(spec) ? spec : spec.split(",");
+  for (const entry of entries) {
+    const eqIdx = entry.indexOf("=");
+    if (eqIdx < 0) {
+      throw new Error(`列マッピングの形式が不正です（項目=列）: ${entry}`);
+    }
+
+    const field = entry.substring(0, eqIdx).trim() as TweetField;
+    const column = entry.substring(eqIdx + 1).trim();
+    if (!TWEET_FIELDS.includes(field)) {
+      throw new Error(
+        `不明な項目です: ${field}（利用可能: ${TWEET_FIELDS.join(", ")}）`
+      );
+    }
+
+    // 数字のみの場合は列番号として扱う
+    mapping[field] = /^\d+$/.test(column) ? parseInt(column, 10) : column;
+  }
+
+  return mapping;
+};
+
+/**
+ * 項目に対応するヘッダー名の候補（マッピング指定、項目名、別名の順）
+ */
+const getHeaderCandidates = (
+  field: TweetField,
+  mapping: ColumnMapping,
+  aliases: HeaderAliases
+): string[] => {
+  const column = mapping[field];
+  if (typeof column === "string") {
+    return [column];
+  }
+  return [field, ...(aliases[field] || [])];
+};
+
+/**
+ * 行がヘッダー行かどうかを列名から判定
+ * @param row 判定する行
+ * @param mapping 列マッピング
+ * @param aliases ヘッダー名の別名
+ * @param minMatches ヘッダーと判定するために必要な一致列数
+ * @returns ヘッダー行ならtrue
+ */
+export const isHeaderRow = (
+  row: string[],
+  mapping: ColumnMapping,
+  aliases: HeaderAliases = {},
+  minMatches: number = 2
+): boolean => {
+  const normalizedRow = row.map((cell) => String(cell).trim().toLowerCase());
+  const matches = TWEET_FIELDS.filter((field) =>
+    getHeaderCandidates(field, mapping, aliases).some((name) =>
+      normalizedRow.includes(name.toLowerCase())
+    )
+  );
+  return matches.length >= minMatches;
+};
+
+/**
+ * 列マッピングをヘッダー行に照らして列番号に解決
+ * ヘッダー名はマッピング指定、項目名、別名の順に大文字小文字を区別せず照合する
+ * @param mapping 列マッピング
+ * @param header ヘッダー行（ない場合は列番号の指定とデフォルト配置のみ使用）
+ * @param aliases ヘッダー名の別名
+ * @returns 列番号に解決済みの列マッピング
+ */
+export const resolveColumns = (
+  mapping: ColumnMapping,
+  header?: string[],
+  aliases: HeaderAliases = {}
+): ResolvedColumns => {
+  const normalizedHeader = header?.map((h) => String(h).trim().toLowerCase());
+  const findHeader = (names: string[]): number | undefined => {
+    for (const name of names) {
+      const index = normalizedHeader?.indexOf(name.trim().toLowerCase()) ?? -1;
+      if (index >= 0) {
+        return index;
+      }
+    }
+    return undefined;
+  };
+
+  const resolved: ResolvedColumns = {};
+  for (const field of TWEET_FIELDS) {
+    const column = mapping[field];
+    if (typeof column === "number") {
+      resolved[field] = column;
+    } else if (typeof column === "string") {
+      const index = findHeader([column]);
+      if (index === undefined) {
+        throw new Error(`ヘッダーに列 ${column} が見つかりません`);
+      }
+      resolved[field] = index;
+    } else if (header) {
+      resolved[field] = findHeader(
+        getHeaderCandidates(field, mapping, aliases)
+      );
+    } else {
+      resolved[field] = DEFAULT_COLUMN_INDEXES[field];
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * 1行分のセルをTweetDataに変換
+ * ツイートリンクがない場合はリンク先URLで代用する
+ * @param row セルの配列
+ * @param columns 列番号に解決済みの列マッピング
+ * @returns ツイートデータ
+ */
+export const rowToTweetData = (
+  row: string[],
+  columns: ResolvedColumns
+): TweetData => {
+  const cell = (field: TweetField): string => {
+    const index = columns[field];
+    return index !== undefined ? (row[index] || "").trim() : "";
+  };
+
+  const dateStr = cell("tweetDate");
+  if (!dateStr) {
+    throw new Error("日付の列が空です");
+  }
+  const tweetDate = parseDate(dateStr);
+
+  const contentLink = cell("contentLink") || null;
+  const tweetLink = cell("tweetLink") || contentLink;
+  if (!tweetLink) {
+    throw new Error("ツイートリンクとリンク先URLの列がどちらも空です");
+  }
+
+  return {
+    tweetDate,
+    account: cell("account") || "unknown",
+    contentLink,
+    tweetLink,
+    content: cell("content"),
+  };
+};
+
+export default {
+  parseColumnMapping,
+  isHeaderRow,
+  resolveColumns,
+  rowToTweetData,
+};
@@ -0,0 +1,98 @@
+/**
+ * CSVパースユーティリティ
+ */
+
+/**
+ * CSVの1行分のセルと、ファイル内での開始行番号（1始まり）
+ */
+export interface CsvRow {
+  cells: string[];
+  line: number;
+}
+
+/**
+ * CSVテキストを行と列の配列にパースし、各行の開始行番号を付ける（RFC 4180準拠、ダブルクォート対応）
+ * クォート内の改行も行番号として数える
+ * @param text CSVテキスト
+ * @param delimiter 区切り文字（TSVの場合はタブ）
+ * @returns 行ごとのセル配列と行番号（空行は除外）
+ */
+export const parseCsvRows = (
+  text: string,
+  delimiter: string = ","
+): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // BOMを除去
+  const input = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        // 連続したダブルクォートはエスケープされた文字として扱う
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // CRLFは1つの改行として扱う
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = "";
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  // 末尾に改行がない場合の最終行
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  return rows.filter((r) => r.cells.some((c) => c.trim() !== ""));
+};
+
+/**
+ * CSVテキストを行と列の配列にパース（RFC 4180準拠、ダブルクォート対応）
+ * @param text CSVテキスト
+ * @param delimiter 区切り文字（TSVの場合はタブ）
+ * @returns 行ごとのセル配列（空行は除外）
+ */
+export const parseCsv = (text: string, delimiter: string = ","): string[][] => {
+  return parseCsvRows(text, delimiter).map((row) => row.cells);
+};
+
+export default {
+  parseCsvRows,
+  parseCsv,
+};
@@ -1,51 +1,271 @@
 /**
  * 日付処理ユーティリティ
  */
+import { config } from "../config";
+
+// 月名（英語・ドイツ語・フランス語・スペイン語の正式名と省略形）と月番号（0始まり）の対応
+const MONTH_NAMES: Record<string, number> = {
+  january: 0,
+  jan: 0,
+  januar: 0,
+  janvier: 0,
+  enero: 0,
+  february: 1,
+  feb: 1,
+  februar: 1,
+  février: 1,
+  fevrier: 1,
+  févr: 1,
+  febrero: 1,
+  march: 2,
+  mar: 2,
+  märz: 2,
+  maerz: 2,
+  mars: 2,
+  marzo: 2,
+  april: 3,
+  apr: 3,
+  avril: 3,
+  avr: 3,
+  abril: 3,
+  abr: 3,
+  may: 4,
+  mai: 4,
+  mayo: 4,
+  june: 5,
+  jun: 5,
+  juni: 5,
+  juin: 5,
+  junio: 5,
+  july: 6,
+  jul: 6,
+  juli: 6,
+  juillet: 6,
+  juil: 6,
+  julio: 6,
+  august: 7,
+  aug: 7,
+  août: 7,
+  aout: 7,
+  agosto: 7,
+  ago: 7,
+  september: 8,
+  sep: 8,
+  sept: 8,
+  septembre: 8,
+  septiembre: 8,
+  october: 9,
+  oct: 9,
+  oktober: 9,
+  okt: 9,
+  octobre: 9,
+  octubre: 9,
+  november: 10,
+  nov: 10,
+  novembre: 10,
+  noviembre: 10,
+  december: 11,
+  dec: 11,
+  dezember: 11,
+  dez: 11,
+  décembre: 11,
+  decembre: 11,
+  déc: 11,
+  diciembre: 11,
+  dic: 11,
+};
+
+/**
+ * 指定したタイムゾーンにおける、その時点のUTCからのオフセット（ミリ秒）を取得
+ * @param date 対象の時点
+ * @param timeZone IANAタイムゾーン名（例: Asia/Tokyo）
+ * @returns オフセット（例: Asia/Tokyo なら +9時間）
+ */
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const part = (type: string): number =>
+    parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * 指定したタイムゾーンの日時（壁時計の時刻）をDateオブジェクトに変換
+ * 実行環境のタイムゾーンには依存しない
+ * @param timeZone IANAタイムゾーン名
+ * @returns 変換したDateオブジェクト
+ */
+export const zonedTimeToDate = (
+  timeZone: string,
+  year: number,
+  monthIndex: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date => {
+  const wallClock = Date.UTC(year, monthIndex, day, hours, minutes, seconds);
+
+  // 夏時間の切り替え前後でオフセットが変わるため、求めた時点のオフセットで補正し直す
+  const firstOffset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  return new Date(
+    secondOffset === firstOffset ? guess : wallClock - secondOffset
+  );
+};
 
 /**
- * YYYY-MM-DD形式の日付文字列をDateオブジェクトに変換
+ * 日付文字列から時刻部分を取り出す
+ * 「10:35PM」「10:35 p.m.」「午後10:35」「22:35:10」「22時35分」に対応
+ * @returns 時・分・秒と、時刻部分を取り除いた残りの文字列
  */
-export const parseDate = (dateStr: string): Date => {
-  // Googleスプレッドシートの日付形式「March 17, 2025 at 10:35PM」をパース
-  const regex = /([A-Za-z]+)\s+(\d+),\s+(\d+)\s+at\s+(\d+):(\d+)([AP]M)/;
-  const match = dateStr.match(regex);
-
-  if (match) {
-    const [, month, day, year, hours, minutes, ampm] = match;
-
-    // 月名を月番号に変換
-    const monthNames = [
-      "January",
-      "February",
-      "March",
-      "April",
-      "May",
-      "June",
-      "July",
-      "August",
-      "September",
-      "October",
-      "November",
-      "December",
-    ];
-    const monthIndex = monthNames.findIndex((m) => m === month);
-
-    // 時間を24時間形式に変換
-    let hour = parseInt(hours, 10);
-    if (ampm === "PM" && hour < 12) hour += 12;
-    if (ampm === "AM" && hour === 12) hour = 0;
-
-    return new Date(
-      parseInt(year, 10),
-      monthIndex,
-      parseInt(day, 10),
-      hour,
-      parseInt(minutes, 10)
+const extractTime = (
+  dateStr: string
+): { hours: number; minutes: number; seconds: number; rest: string } => {
+  const match =
+    dateStr.match(
+      /(午前|午後)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp])?\.?\s*(?:[Mm]\.?)?(?![\w])/
+    ) ||
+    dateStr.match(
+      /(午前|午後)?\s*(\d{1,2})時(?:(\d{1,2})分)?(?:(\d{1,2})秒)?()/
     );
+
+  if (!match) {
+    return { hours: 0, minutes: 0, seconds: 0, rest: dateStr };
+  }
+
+  const [matched, jpPeriod, hoursStr, minutesStr, secondsStr, period] = match;
+  let hours = parseInt(hoursStr, 10);
+  const isPm = jpPeriod === "午後" || (period || "").toUpperCase() === "P";
+  const isAm = jpPeriod === "午前" || (period || "").toUpperCase() === "A";
+  if (isPm && hours < 12) hours += 12;
+  if (isAm && hours === 12) hours = 0;
+
+  return {
+    hours,
+    minutes: parseInt(minutesStr || "0", 10),
+    seconds: parseInt(secondsStr || "0", 10),
+    rest: dateStr.replace(matched, " "),
+  };
+};
+
+/**
+ * 日付部分（年・月・日）を解析
+ * 「2025年3月17日」「2025-03-17」「2025/3/17」「March 17, 2025」「17. März 2025」などに対応
+ * @returns 年・月（0始まり）・日（解析できない場合はnull）
+ */
+const extractDate = (
+  text: string
+): { year: number; monthIndex: number; day: number } | null => {
+  const numeric =
+    text.match(/(\d{4})年\s*(\d{1,2})月\s*(\d{1,2})日/) ||
+    text.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (numeric) {
+    return {
+      year: parseInt(numeric[1], 10),
+      monthIndex: parseInt(numeric[2], 10) - 1,
+      day: parseInt(numeric[3], 10),
+    };
+  }
+
+  // 月名を含む形式（年と日の並び順は問わない）
+  const words = text.toLowerCase().match(/[a-zäéû]+/g) || [];
+  const monthWord = words.find((word) => MONTH_NAMES[word] !== undefined);
+  const year = text.match(/\b(\d{4})\b/);
+  const day = text.replace(/\b\d{4}\b/, " ").match(/\b(\d{1,2})\b/);
+  if (monthWord && year && day) {
+    return {
+      year: parseInt(year[1], 10),
+      monthIndex: MONTH_NAMES[monthWord],
+      day: parseInt(day[1], 10),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * 年月日が実在する日付かどうか（2月30日などの繰り上がりを防ぐ）
+ * @param year 年
+ * @param monthIndex 月（0始まり）
+ * @param day 日
+ */
+const isValidDay = (year: number, monthIndex: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, monthIndex, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === monthIndex &&
+    date.getUTCDate() === day
+  );
+};
+
+/**
+ * 取得元の日付文字列をDateオブジェクトに変換
+ * IFTTTの「March 17, 2025 at 10:35PM」形式（他の言語設定の形式を含む）やISO 8601形式に対応
+ * タイムゾーンの指定がない日時は取得元のタイムゾーン（SOURCE_TIMEZONE）として扱う
+ * @param dateStr 日付文字列
+ * @param timeZone 取得元のタイムゾーン（省略時は設定値）
+ * @returns 変換したDateオブジェクト
+ * @throws 解析できない場合
+ */
+export const parseDate = (
+  dateStr: string,
+  timeZone: string = config.date.sourceTimeZone
+): Date => {
+  const trimmed = dateStr.trim();
+
+  // タイムゾーン付きのISO 8601形式はそのまま解釈
+  const isoMatch = trimmed.match(
+    /^(\d{4})-(\d{2})-(\d{2})T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/i
+  );
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch.map(Number);
+    const parsed = new Date(trimmed);
+    if (isNaN(parsed.getTime()) || !isValidDay(year, month - 1, day)) {
+      throw new Error(`日付を解析できません: ${dateStr}`);
+    }
+    return parsed;
+  }
+
+  const { hours, minutes, seconds, rest } = extractTime(trimmed);
+  const date = extractDate(rest);
+  if (
+    !date ||
+    !isValidDay(date.year, date.monthIndex, date.day) ||
+    hours > 23 ||
+    minutes > 59 ||
+    seconds > 59
+  ) {
+    throw new Error(`日付を解析できません: ${dateStr}`);
   }
 
-  // フォールバック: 標準的な日付形式の解析を試みる
-  return new Date(dateStr);
+  return zonedTimeToDate(
+    timeZone,
+    date.year,
+    date.monthIndex,
+    date.day,
+    hours,
+    minutes,
+    seconds
+  );
 };
 
 /**
@@ -90,6 +310,7 @@ export const formatDateTimeJP = (date: Date = new Date()): string => {
 
 export default {
   parseDate,
+  zonedTimeToDate,
   isDateInRange,
   getDaysAgo,
   formatDate,
@@ -0,0 +1,112 @@
+/**
+ * JSONスキーマユーティリティ
+ * LLMの応答の検証に使う範囲（型、列挙値、数値の範囲、必須項目）のJSON Schemaに対応
+ */
+
+/**
+ * JSONスキーマ（JSON Schemaのサブセット）
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+/**
+ * 値の型がスキーマの型に一致するかどうか
+ */
+const matchesType = (value: unknown, type: JsonSchema["type"]): boolean => {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    default:
+      return true;
+  }
+};
+
+/**
+ * 値をスキーマで検証する
+ * @param value 検証する値
+ * @param schema スキーマ
+ * @param path エラーメッセージに使う値の位置
+ * @returns エラーメッセージの配列（問題がない場合は空）
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): string[] => {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} は ${schema.type} である必要があります`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(
+      `${path} は ${schema.enum.join(", ")} のいずれかである必要があります`
+    );
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} は ${schema.minimum} 以上である必要があります`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} は ${schema.maximum} 以下である必要があります`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(
+          item,
+          schema.items as JsonSchema,
+          `${path}[${index}]`
+        )
+      );
+    });
+  }
+
+  if (matchesType(value, "object") && schema.type === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key} がありません`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} は不要な項目です`);
+      }
+    }
+  }
+
+  return errors;
+};
+
+export default {
+  validateJsonSchema,
+};
@@ -0,0 +1,52 @@
+/**
+ * JSON値ユーティリティ
+ * エクスポートファイルやページに埋め込まれたJSONなど、形式が保証されない値から項目を取り出す
+ */
+
+/**
+ * 値がオブジェクト（配列以外）かどうか
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+/**
+ * オブジェクトをキーの順にたどって値を取り出す
+ * @param value 対象の値
+ * @param keys たどるキー
+ * @returns 値（途中がオブジェクトでない場合はundefined）
+ */
+export const getField = (value: unknown, ...keys: string[]): unknown => {
+  return keys.reduce<unknown>(
+    (current, key) => (isRecord(current) ? current[key] : undefined),
+    value
+  );
+};
+
+/**
+ * オブジェクトをキーの順にたどって文字列を取り出す
+ * @returns 文字列（文字列でない場合はundefined）
+ */
+export const getString = (
+  value: unknown,
+  ...keys: string[]
+): string | undefined => {
+  const field = getField(value, ...keys);
+  return typeof field === "string" ? field : undefined;
+};
+
+/**
+ * オブジェクトをキーの順にたどって配列を取り出す
+ * @returns 配列（配列でない場合は空の配列）
+ */
+export const getArray = (value: unknown, ...keys: string[]): unknown[] => {
+  const field = getField(value, ...keys);
+  return Array.isArray(field) ? field : [];
+};
+
+export default {
+  isRecord,
+  getField,
+  getString,
+  getArray,
+};
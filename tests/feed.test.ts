@@ -0,0 +1,66 @@
+/**
+ * RSS 2.0 / Atom フィード取り込みのテスト
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { SourcePlatform } from "../src/config/constants";
+import { loadFeeds } from "../src/services/feed";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "feeds");
+
+test("RSS 2.0 の記事をフィード名をアカウントとして読み込む", async () => {
+  const items = await loadFeeds([path.join(FIXTURES_DIR, "rss.xml")]);
+
+  // 日付のない記事は除外する
+  assert.equal(items.length, 2);
+  assert.deepEqual(items[0], {
+    tweetDate: new Date("2025-03-03T00:00:00Z"),
+    account: "Example Tech Blog",
+    tweetLink: "https://blog.example.com/posts/typescript-5-8",
+    contentLink: "https://blog.example.com/posts/typescript-5-8",
+    content: "TypeScript 5.8 の新機能\n\n条件付き型の改善について紹介します。",
+    platform: SourcePlatform.RSS,
+  });
+});
+
+test("RSS 2.0 の link がない記事は guid を、本文は content:encoded を使う", async () => {
+  const [, item] = await loadFeeds([path.join(FIXTURES_DIR, "rss.xml")]);
+
+  assert.equal(item.contentLink, "https://blog.example.com/posts/guid-only");
+  assert.equal(item.tweetDate.toISOString(), "2025-03-04T12:00:00.000Z");
+  assert.equal(
+    item.content,
+    "guid だけの記事\n\n本文は content:encoded にあります。"
+  );
+});
+
+test("Atom の記事は alternate のリンクを優先する", async () => {
+  const items = await loadFeeds([path.join(FIXTURES_DIR, "atom.xml")]);
+
+  assert.deepEqual(
+    items.map((item) => [item.account, item.contentLink, item.content]),
+    [
+      [
+        "Example Atom Feed",
+        "https://atom.example.com/articles/1",
+        "Atom & フィードの記事\n\n要約です。",
+      ],
+      [
+        "Example Atom Feed",
+        "https://atom.example.com/articles/2",
+        "rel のないリンク\n\n本文です。",
+      ],
+    ]
+  );
+  assert.equal(items[1].tweetDate.toISOString(), "2025-03-06T00:00:00.000Z");
+});
+
+test("読み込めないフィードは除外して他のフィードを読み込む", async () => {
+  const items = await loadFeeds([
+    path.join(FIXTURES_DIR, "missing.xml"),
+    path.join(FIXTURES_DIR, "atom.xml"),
+  ]);
+
+  assert.equal(items.length, 2);
+});
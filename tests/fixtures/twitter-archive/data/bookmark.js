@@ -0,0 +1,14 @@
+window.YTD.bookmark.part0 = [
+  {
+    "bookmark" : {
+      "tweetId" : "1628318925893545984",
+      "fullText" : "TypeScript 5.0 のリリースノートを読みました https://devblogs.microsoft.com/typescript/announcing-typescript-5-0/",
+      "expandedUrl" : "https://twitter.com/alice/status/1628318925893545984"
+    }
+  },
+  {
+    "bookmark" : {
+      "tweetId" : "1900000000000000001"
+    }
+  }
+]
@@ -0,0 +1,21 @@
+window.YTD.like.part0 = [
+  {
+    "like" : {
+      "tweetId" : "1628318925893545984",
+      "fullText" : "TypeScript 5.0 のリリースノートを読みました https://devblogs.microsoft.com/typescript/announcing-typescript-5-0/",
+      "expandedUrl" : "https://twitter.com/alice/status/1628318925893545984"
+    }
+  },
+  {
+    "like" : {
+      "tweetId" : "1900000000000000000",
+      "fullText" : "URLのないツイート",
+      "expandedUrl" : "https://twitter.com/i/web/status/1900000000000000000"
+    }
+  },
+  {
+    "like" : {
+      "fullText" : "IDのないエントリ"
+    }
+  }
+]
@@ -0,0 +1,8 @@
+window.YTD.tweets.part0 = [
+  {
+    "tweet" : {
+      "id_str" : "1800000000000000000",
+      "full_text" : "取り込み対象外のファイル"
+    }
+  }
+]
@@ -0,0 +1,86 @@
+/**
+ * テスト用のHTTPサーバー
+ * パスごとに決まった応答（fixturesのファイル、リダイレクト、ステータスコード）を返し、受けたリクエストを記録する
+ */
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+
+export const FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
+
+/**
+ * パスに対する応答
+ */
+export interface FixtureRoute {
+  status?: number;
+  file?: string; // fixturesディレクトリからの相対パス
+  body?: string;
+  contentType?: string;
+  location?: string; // リダイレクト先（サーバー内のパスまたはURL）
+}
+
+/**
+ * 起動したテスト用サーバー
+ */
+export interface FixtureServer {
+  baseUrl: string;
+  requests: string[]; // 受けたリクエストのパス（クエリを含む）
+  close: () => Promise<void>;
+}
+
+/**
+ * fixturesのファイルを読み込む
+ * @param relativePath fixturesディレクトリからの相対パス
+ */
+export const readFixture = (relativePath: string): string => {
+  return fs.readFileSync(path.join(FIXTURES_DIR, relativePath), "utf-8");
+};
+
+/**
+ * テスト用のHTTPサーバーを起動する
+ * ルートにないパスは404を返す
+ * @param routes パス（クエリを含む）ごとの応答
+ */
+export const startFixtureServer = (
+  routes: Record<string, FixtureRoute>
+): Promise<FixtureServer> => {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = req.url || "/";
+    requests.push(url);
+
+    const route = routes[url] || routes[url.split("?")[0]];
+    if (!route) {
+      res.writeHead(404, { "Content-Type": "text/html" });
+      res.end("<html><head><title>404 Not Found</title></head></html>");
+      return;
+    }
+    if (route.location) {
+      res.writeHead(route.status || 301, { Location: route.location });
+      res.end();
+      return;
+    }
+
+    res.writeHead(route.status || 200, {
+      "Content-Type": route.contentType || "text/html; charset=utf-8",
+    });
+    res.end(route.file ? readFixture(route.file) : route.body || "");
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        // クライアントのkeep-aliveの接続が残っていても待たずに閉じる
+        close: () =>
+          new Promise<void>((done) => {
+            server.close(() => done());
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+};
@@ -0,0 +1,132 @@
+/**
+ * LLMの構造化出力（JSONの取り出し、スキーマでの検証、修正の依頼）のテスト
+ * 固定応答のプロバイダを使い、APIは呼び出さない
+ */
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  completeValidatedJson,
+  createFakeProvider,
+  LlmJsonSchema,
+  LlmMessage,
+  parseJsonResponse,
+  setLlmProvider,
+} from "../src/services/llm";
+import { validateJsonSchema } from "../src/utils/json-schema";
+
+const classificationSchema: LlmJsonSchema = {
+  name: "classification",
+  schema: {
+    type: "object",
+    properties: {
+      category: { type: "string", enum: ["技術", "ビジネス"] },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["category", "confidence"],
+    additionalProperties: false,
+  },
+};
+
+const MESSAGES: LlmMessage[] = [
+  { role: "user", content: "次のツイートを分類してください" },
+];
+
+afterEach(() => {
+  setLlmProvider(null);
+});
+
+test("前後の説明文やコードブロックの記号を除いてJSONを取り出す", () => {
+  assert.deepEqual(
+    parseJsonResponse('分類結果です。\n```json\n{"category": "技術"}\n```'),
+    { category: "技術" }
+  );
+  assert.equal(parseJsonResponse("JSONはありません"), null);
+  assert.equal(parseJsonResponse('{"category": }'), null);
+});
+
+test("スキーマに一致しない項目ごとにエラーを返す", () => {
+  assert.deepEqual(
+    validateJsonSchema(
+      { category: "料理", confidence: 1.5, tags: ["a", 1], extra: true },
+      classificationSchema.schema
+    ),
+    [
+      "$.category は 技術, ビジネス のいずれかである必要があります",
+      "$.confidence は 1 以下である必要があります",
+      "$.tags[1] は string である必要があります",
+      "$.extra は不要な項目です",
+    ]
+  );
+  assert.deepEqual(validateJsonSchema({}, classificationSchema.schema), [
+    "$.category がありません",
+    "$.confidence がありません",
+  ]);
+  assert.deepEqual(
+    validateJsonSchema(
+      { category: "技術", confidence: 0.9 },
+      classificationSchema.schema
+    ),
+    []
+  );
+});
+
+test("JSONとして解釈できない応答は問題点を伝えて出力し直してもらう", async () => {
+  const requests: LlmMessage[][] = [];
+  const responses = [
+    "分類できませんでした",
+    '{"category": "料理", "confidence": 0.8}',
+    '{"category": "技術", "confidence": 0.9, "tags": ["TypeScript"]}',
+  ];
+  setLlmProvider(
+    createFakeProvider((messages) => {
+      requests.push(messages);
+      return responses[requests.length - 1];
+    })
+  );
+
+  const result = await completeValidatedJson(MESSAGES, {
+    stage: "classifier",
+    jsonSchema: classificationSchema,
+  });
+
+  assert.deepEqual(result, {
+    value: { category: "技術", confidence: 0.9, tags: ["TypeScript"] },
+    text: '{"category": "技術", "confidence": 0.9, "tags": ["TypeScript"]}',
+    errors: [],
+    attempts: 3,
+  });
+  // 修正の依頼には直前の応答と問題点を含める（会話は元のメッセージから作り直す）
+  assert.equal(requests[1].length, 3);
+  assert.deepEqual(requests[1][1], {
+    role: "assistant",
+    content: "分類できませんでした",
+  });
+  assert.match(requests[1][2].content, /応答をJSONとして解釈できません/);
+  assert.equal(requests[2].length, 3);
+  assert.match(
+    requests[2][2].content,
+    /\$\.category は 技術, ビジネス のいずれかである必要があります/
+  );
+});
+
+test("修正を依頼しても一致しない場合は最後の応答と検証エラーを返す", async () => {
+  let calls = 0;
+  setLlmProvider(
+    createFakeProvider(() => {
+      calls++;
+      return '{"category": "技術"}';
+    })
+  );
+
+  const result = await completeValidatedJson(MESSAGES, {
+    stage: "classifier",
+    jsonSchema: classificationSchema,
+  });
+
+  assert.equal(result.value, null);
+  assert.equal(result.text, '{"category": "技術"}');
+  assert.deepEqual(result.errors, ["$.confidence がありません"]);
+  assert.equal(result.attempts, 3);
+  assert.equal(calls, 3);
+});
@@ -0,0 +1,112 @@
+/**
+ * 動画・ポッドキャスト抽出のテスト（保存したページとfixturesの字幕を使う）
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// ESMインポートではなくCommonJSスタイルでcheerioをインポート
+const cheerio = require("cheerio");
+import { MediaType } from "../src/config/constants";
+import {
+  CaptionTrack,
+  extractPodcastEpisode,
+  getYouTubeVideoId,
+  parseCaptionXml,
+  parseYouTubeWatchPage,
+  selectCaptionTrack,
+} from "../src/services/media-extractor";
+import { readFixture } from "./helpers/fixture-server";
+
+test("YouTubeのURLから動画IDを取り出す", () => {
+  assert.equal(
+    getYouTubeVideoId("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10"),
+    "dQw4w9WgXcQ"
+  );
+  assert.equal(
+    getYouTubeVideoId("https://youtu.be/dQw4w9WgXcQ"),
+    "dQw4w9WgXcQ"
+  );
+  assert.equal(
+    getYouTubeVideoId("https://m.youtube.com/shorts/dQw4w9WgXcQ"),
+    "dQw4w9WgXcQ"
+  );
+  assert.equal(getYouTubeVideoId("https://example.com/watch?v=abc"), null);
+});
+
+test("視聴ページのytInitialPlayerResponseから動画の情報を取り出す", () => {
+  const video = parseYouTubeWatchPage(readFixture("media/youtube-watch.html"));
+
+  assert.ok(video);
+  assert.equal(video.videoId, "dQw4w9WgXcQ");
+  assert.equal(video.title, "TypeScriptの型システム入門");
+  assert.equal(video.channel, "プログラミング講座");
+  // 文字列中の括弧で途中までしか読まないことがない
+  assert.equal(
+    video.description,
+    '型の基本から条件型まで解説します。\n資料: https://example.com/slides {"draft": false}'
+  );
+  assert.equal(video.publishDate, "2025-03-01");
+  // 文字列でないキーワードは除く
+  assert.deepEqual(video.keywords, ["TypeScript", "型"]);
+  assert.equal(video.lengthSeconds, 1234);
+  // baseUrlのない字幕トラックは除く
+  assert.equal(video.captionTracks.length, 3);
+});
+
+test("ytInitialPlayerResponseがないページはnullを返す", () => {
+  assert.equal(
+    parseYouTubeWatchPage(readFixture("pages/static-article.html")),
+    null
+  );
+});
+
+test("優先言語の手動作成の字幕を自動生成の字幕より優先する", () => {
+  const video = parseYouTubeWatchPage(readFixture("media/youtube-watch.html"));
+  assert.ok(video);
+
+  const track = selectCaptionTrack(video.captionTracks);
+  assert.equal(track?.languageCode, "ja");
+  assert.equal(track?.kind, undefined);
+});
+
+test("優先言語がない場合は手動作成の字幕を選ぶ", () => {
+  const tracks: CaptionTrack[] = [
+    { baseUrl: "https://example.com/de-asr", languageCode: "de", kind: "asr" },
+    { baseUrl: "https://example.com/fr", languageCode: "fr" },
+  ];
+
+  assert.equal(selectCaptionTrack(tracks)?.languageCode, "fr");
+  assert.equal(selectCaptionTrack([]), undefined);
+});
+
+test("字幕のXMLを行ごとのテキストにし、二重の文字参照を戻す", () => {
+  assert.equal(
+    parseCaptionXml(readFixture("media/caption.xml")),
+    'こんにちは、 今日は型の話です\nIt\'s "easy"\n条件型 A & B'
+  );
+});
+
+test("JSON-LDのPodcastEpisodeから番組名と説明文を取り出す", () => {
+  const $ = cheerio.load(readFixture("media/podcast-episode.html"));
+  const url = "https://podcast.example.com/shows/tech-radio/42";
+
+  assert.deepEqual(extractPodcastEpisode($, url), {
+    url,
+    title: "#42 型安全なAPI設計",
+    content:
+      "スキーマから型を生成する方法と、実行時の検証をどこで行うかについて話しました。",
+    wordCount: 37,
+    siteName: "テック雑談ラジオ",
+    publishDate: "2025-04-10",
+    authors: ["テック雑談ラジオ"],
+    mediaType: MediaType.PODCAST,
+  });
+});
+
+test("エピソードページでないページはnullを返す", () => {
+  const $ = cheerio.load(readFixture("pages/static-article.html"));
+
+  assert.equal(
+    extractPodcastEpisode($, "https://blog.example.com/posts/article"),
+    null
+  );
+});
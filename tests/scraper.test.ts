@@ -0,0 +1,66 @@
+/**
+ * HTTPでのスクレイピング（ブラウザを使わない取得経路）のテスト
+ * ローカルのHTTPサーバーで保存済みのページを返す
+ */
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { MediaType, ScrapeFailureReason } from "../src/config/constants";
+import { scrapeUrl } from "../src/services/scraper";
+import { FixtureServer, startFixtureServer } from "./helpers/fixture-server";
+
+let server: FixtureServer;
+
+before(async () => {
+  server = await startFixtureServer({
+    "/robots.txt": { file: "pages/robots.txt", contentType: "text/plain" },
+    "/articles/static": { file: "pages/static-article.html" },
+    "/short": { location: "/articles/static?utm_source=twitter" },
+    "/private/article": { file: "pages/static-article.html" },
+  });
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("静的なページはHTTPの取得だけで本文を抽出する", async () => {
+  const scraped = await scrapeUrl(`${server.baseUrl}/articles/static`);
+
+  assert.equal(scraped.error, undefined);
+  assert.equal(scraped.title, "静的なブログ記事 | Example Blog");
+  assert.equal(scraped.siteName, "Example Blog");
+  assert.equal(scraped.mediaType, MediaType.ARTICLE);
+  assert.match(scraped.content, /HTTP の GET だけで本文を取り出せます/);
+  // URL解決時に取得したページをそのまま使い、取得し直さない
+  assert.equal(
+    server.requests.filter((request) => request === "/articles/static").length,
+    1
+  );
+});
+
+test("短縮URLのリダイレクトを追跡し、トラッキングパラメータを除いた正規URLにする", async () => {
+  const scraped = await scrapeUrl(`${server.baseUrl}/short`);
+
+  assert.equal(scraped.url, `${server.baseUrl}/short`);
+  assert.equal(scraped.canonicalUrl, `${server.baseUrl}/articles/static`);
+  assert.deepEqual(scraped.redirectChain, [
+    `${server.baseUrl}/short`,
+    `${server.baseUrl}/articles/static?utm_source=twitter`,
+  ]);
+  assert.match(scraped.content, /静的なページが大半を占めます/);
+});
+
+test("robots.txtで禁止されているページは取得しない", async () => {
+  const scraped = await scrapeUrl(`${server.baseUrl}/private/article`);
+
+  assert.equal(scraped.failureReason, ScrapeFailureReason.ROBOTS_DISALLOWED);
+  assert.equal(scraped.content, "");
+  assert.ok(!server.requests.includes("/private/article"));
+});
+
+test("存在しないページはブラウザで取得し直さずに失敗とする", async () => {
+  const scraped = await scrapeUrl(`${server.baseUrl}/articles/missing`);
+
+  assert.equal(scraped.failureReason, ScrapeFailureReason.NOT_FOUND);
+  assert.equal(scraped.content, "");
+});
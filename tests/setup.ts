@@ -0,0 +1,25 @@
+/**
+ * テストの共通設定
+ * 設定の読み込みで必須になる環境変数にダミーの値を入れ、LLMはテスト用の固定応答を使う
+ * （外部のAPIには接続しない）
+ */
+const TEST_ENV: Record<string, string> = {
+  GOOGLE_SHEETS_ID: "test-sheet",
+  GOOGLE_SHEETS_API_KEY: "test-key",
+  OPENAI_API_KEY: "test-key",
+  TTS_API_KEY: "test-key",
+  TTS_VOICE_ID: "test-voice",
+  DATABASE_URL: "file:./test.db",
+  LLM_PROVIDER: "fake",
+  LLM_JSON_REPAIR_ATTEMPTS: "2",
+  SCRAPER_HOST_DELAY_MS: "0",
+  SCRAPE_CACHE_TTL_HOURS: "0",
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+  process.env[key] = value;
+}
+
+// ロガーのコンソール出力（データベースに保存できない場合のエラーを含む）を抑える
+console.log = () => {};
+console.error = () => {};
@@ -0,0 +1,86 @@
+/**
+ * スレッド展開のテスト（保存したツイートのページを使う）
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatExpandedContent,
+  parseTweetPageHtml,
+  parseTweetUrl,
+} from "../src/services/thread-expander";
+import { readFixture } from "./helpers/fixture-server";
+
+const TWEET_URL = "https://x.com/alice/status/1000000000000000100";
+
+test("ツイートのURLからアカウント名とツイートIDを取り出す", () => {
+  assert.deepEqual(parseTweetUrl("https://twitter.com/alice/status/123?s=20"), {
+    account: "alice",
+    statusId: "123",
+  });
+  assert.deepEqual(parseTweetUrl("https://x.com/i/web/status/456"), {
+    account: null,
+    statusId: "456",
+  });
+  assert.equal(parseTweetUrl("https://example.com/alice/status/123"), null);
+});
+
+test("投稿者本人の返信が続く間をスレッドの続きとし、引用ツイートを取り出す", () => {
+  const thread = parseTweetPageHtml(
+    readFixture("threads/tweet-page.html"),
+    TWEET_URL
+  );
+
+  assert.deepEqual(thread, {
+    author: "alice",
+    text: "TypeScriptの型について連投します",
+    // 本文のない投稿は除き、他のアカウントの返信以降は含めない
+    replies: [
+      { author: "alice", text: "まずはユニオン型から👍" },
+      { author: "alice", text: "次に条件型です" },
+    ],
+    quoted: { author: "bob", text: "条件型はむずかしい" },
+  });
+});
+
+test("ツイートIDが見つからない場合はURLのアカウントの最初の投稿を対象とする", () => {
+  const thread = parseTweetPageHtml(
+    readFixture("threads/tweet-page.html"),
+    "https://x.com/carol/status/1"
+  );
+
+  assert.equal(thread?.text, "参考になります");
+  assert.deepEqual(thread?.replies, []);
+  assert.equal(thread?.quoted, undefined);
+});
+
+test("対象のツイートがないページはnullを返す", () => {
+  assert.equal(
+    parseTweetPageHtml(readFixture("pages/static-article.html"), TWEET_URL),
+    null
+  );
+});
+
+test("元の本文にスレッドの続きと引用ツイートを続ける", () => {
+  const thread = parseTweetPageHtml(
+    readFixture("threads/tweet-page.html"),
+    TWEET_URL
+  );
+  assert.ok(thread);
+
+  assert.equal(
+    formatExpandedContent(
+      "TypeScriptの型について連投します",
+      thread.replies,
+      thread.quoted
+    ),
+    [
+      "TypeScriptの型について連投します",
+      "（スレッドの続き）\nまずはユニオン型から👍\n\n次に条件型です",
+      "（引用: @bob）\n条件型はむずかしい",
+    ].join("\n\n")
+  );
+});
+
+test("続きも引用もない場合はnullを返す", () => {
+  assert.equal(formatExpandedContent("本文", []), null);
+});
@@ -0,0 +1,91 @@
+/**
+ * Twitterアーカイブ取り込みのテスト（展開済みのアーカイブのfixturesを使う）
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { SourcePlatform } from "../src/config/constants";
+import {
+  getTweetDateFromId,
+  loadTwitterArchive,
+  parseArchiveJs,
+} from "../src/services/twitter-archive";
+import { FIXTURES_DIR, readFixture } from "./helpers/fixture-server";
+
+const ARCHIVE_DIR = path.join(FIXTURES_DIR, "twitter-archive");
+
+test("アーカイブのJSファイルから代入式を除いてエントリを取り出す", () => {
+  const entries = parseArchiveJs(readFixture("twitter-archive/data/like.js"));
+
+  // tweetIdのないエントリは除く
+  assert.deepEqual(
+    entries.map((entry) => entry.tweetId),
+    ["1628318925893545984", "1900000000000000000"]
+  );
+  assert.throws(() => parseArchiveJs("window.YTD.like.part0 = "));
+});
+
+test("Snowflake形式のツイートIDから投稿日時を算出する", () => {
+  assert.equal(
+    getTweetDateFromId("1628318925893545984").toISOString(),
+    "2023-02-22T09:00:59.292Z"
+  );
+  // Snowflake以前のIDや数値でないIDはエポックにする
+  assert.equal(
+    getTweetDateFromId("20").toISOString(),
+    "2010-11-04T01:42:54.657Z"
+  );
+  assert.equal(
+    getTweetDateFromId("abc").toISOString(),
+    "2010-11-04T01:42:54.657Z"
+  );
+});
+
+test("like.js と bookmark.js を読み込み、同じツイートは1件にまとめる", () => {
+  const tweets = loadTwitterArchive(ARCHIVE_DIR);
+
+  assert.equal(tweets.length, 3);
+  assert.deepEqual(
+    tweets.find(
+      (tweet) =>
+        tweet.tweetLink ===
+        "https://twitter.com/alice/status/1628318925893545984"
+    ),
+    {
+      tweetDate: new Date("2023-02-22T09:00:59.292Z"),
+      account: "alice",
+      tweetLink: "https://twitter.com/alice/status/1628318925893545984",
+      contentLink:
+        "https://devblogs.microsoft.com/typescript/announcing-typescript-5-0/",
+      content:
+        "TypeScript 5.0 のリリースノートを読みました https://devblogs.microsoft.com/typescript/announcing-typescript-5-0/",
+      platform: SourcePlatform.TWITTER,
+    }
+  );
+});
+
+test("i/web/status形式やURLのないエントリはアカウント名を不明とする", () => {
+  const tweets = loadTwitterArchive(ARCHIVE_DIR);
+  const bookmark = tweets.find((tweet) =>
+    tweet.tweetLink.endsWith("/1900000000000000001")
+  );
+
+  assert.equal(bookmark?.account, "unknown");
+  assert.equal(
+    bookmark?.tweetLink,
+    "https://twitter.com/i/web/status/1900000000000000001"
+  );
+  assert.equal(bookmark?.content, "");
+  assert.equal(bookmark?.contentLink, null);
+});
+
+test("data ディレクトリのないパスはエラーにする", () => {
+  assert.throws(
+    () => loadTwitterArchive(path.join(FIXTURES_DIR, "feeds-missing")),
+    /アーカイブが見つかりません/
+  );
+  assert.throws(
+    () => loadTwitterArchive(path.join(FIXTURES_DIR, "feeds")),
+    /data ディレクトリがありません/
+  );
+});
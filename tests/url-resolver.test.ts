@@ -0,0 +1,79 @@
+/**
+ * URL解決（リダイレクトの追跡と正規URLの判定）のテスト
+ */
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveUrl, stripTrackingParams } from "../src/services/url-resolver";
+import { FixtureServer, startFixtureServer } from "./helpers/fixture-server";
+
+let server: FixtureServer;
+
+before(async () => {
+  server = await startFixtureServer({
+    "/posts/2025/hello-world": { file: "canonical/same-path.html" },
+    "/article": { file: "canonical/related-path.html" },
+    "/app/articles/first": { file: "canonical/site-root.html" },
+    "/app/articles/second": { file: "canonical/site-root.html" },
+    "/mirror/2025/hello-world": { file: "canonical/other-host.html" },
+    "/campaign/spring-sale": { file: "canonical/unrelated-path.html" },
+    "/t/abc": { location: "/posts/2025/hello-world?utm_source=twitter" },
+  });
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("トラッキングパラメータとフラグメントを取り除く", () => {
+  assert.equal(
+    stripTrackingParams(
+      "https://example.com/a?utm_source=x&id=1&fbclid=abc#section"
+    ),
+    "https://example.com/a?id=1"
+  );
+});
+
+test("リダイレクトを追跡し、記事自身を指す正規URLを使う", async () => {
+  const resolved = await resolveUrl(`${server.baseUrl}/t/abc`);
+
+  assert.equal(resolved.finalUrl, `${server.baseUrl}/posts/2025/hello-world`);
+  assert.equal(
+    resolved.canonicalUrl,
+    `${server.baseUrl}/posts/2025/hello-world`
+  );
+  assert.equal(resolved.redirectChain.length, 2);
+});
+
+test("パスに共通する語がある正規URL（og:url）を使う", async () => {
+  const resolved = await resolveUrl(`${server.baseUrl}/article?id=12345`);
+
+  assert.equal(
+    resolved.canonicalUrl,
+    `${server.baseUrl}/news/12345-release-notes`
+  );
+});
+
+test("トップページを指す正規URLでは別の記事をまとめない", async () => {
+  const first = await resolveUrl(`${server.baseUrl}/app/articles/first`);
+  const second = await resolveUrl(`${server.baseUrl}/app/articles/second`);
+
+  assert.equal(first.canonicalUrl, `${server.baseUrl}/app/articles/first`);
+  assert.equal(second.canonicalUrl, `${server.baseUrl}/app/articles/second`);
+});
+
+test("別のホストを指す正規URLは使わない", async () => {
+  const resolved = await resolveUrl(
+    `${server.baseUrl}/mirror/2025/hello-world`
+  );
+
+  assert.equal(
+    resolved.canonicalUrl,
+    `${server.baseUrl}/mirror/2025/hello-world`
+  );
+});
+
+test("パスに共通する語がない正規URLは使わない", async () => {
+  const resolved = await resolveUrl(`${server.baseUrl}/campaign/spring-sale`);
+
+  assert.equal(resolved.canonicalUrl, `${server.baseUrl}/campaign/spring-sale`);
+});